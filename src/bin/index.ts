@@ -1,8 +1,10 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import { InvalidArgumentError, program } from 'commander';
+import { once } from 'events';
 import * as fs from 'fs';
 import { get as obtain } from 'lodash';
+import * as path from 'path';
 
 import * as fsh from '../lib/index';
 
@@ -12,6 +14,57 @@ import * as fsh from '../lib/index';
  * @namespace CLI
  */
 
+const toInt = (val: string): number => {
+  if (!/^\d+$/.test(val.trim())) throw new InvalidArgumentError('Ex. "0", "3"');
+
+  return parseInt(val, 10);
+};
+
+const toPositiveInt = (val: string): number => {
+  if (!/^0*[1-9]\d*$/.test(val.trim())) {
+    throw new InvalidArgumentError('Ex. "1", "8"');
+  }
+
+  return parseInt(val, 10);
+};
+
+const SIZE_UNITS: { [unit: string]: number } = {
+  '': 1,
+  B: 1,
+  K: 1024,
+  KB: 1024,
+  M: 1024 ** 2,
+  MB: 1024 ** 2,
+  G: 1024 ** 3,
+  GB: 1024 ** 3,
+  T: 1024 ** 4,
+  TB: 1024 ** 4,
+};
+
+const toBytes = (val: string): number => {
+  const matched = /^(\d+(?:\.\d+)?)\s*([KMGT]?B?)$/i.exec(val.trim());
+  if (!matched) throw new InvalidArgumentError('Ex. "512", "100KB", "10MB"');
+
+  const unit = SIZE_UNITS[matched[2].toUpperCase()];
+  return Math.round(parseFloat(matched[1]) * unit);
+};
+
+const DURATION_UNITS: { [unit: string]: number } = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const toPastDate = (val: string): Date => {
+  const matched = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(val.trim());
+  if (!matched) throw new InvalidArgumentError('Ex. "30m", "12h", "7d", "2w"');
+
+  const unit = DURATION_UNITS[matched[2].toLowerCase()];
+  return new Date(Date.now() - parseFloat(matched[1]) * unit);
+};
+
 // ls
 
 /**
@@ -23,14 +76,31 @@ Usage: npx fs-hospitality ls [options] <dirPath>
 Detecting a text specification.
  
 Options:
-  -V, --version                output the version number
-  -D, --is-only-dir            Exacting directories only
-  -F, --is-only-file           Exacting files only
-  -S, --excludes-symlink       Excluding symbolic-links
-  -M, --matched-reg-exp <exp>  Ex. "\d+\.txt$"
-  -I, --ignored-reg-exp <exp>  Ex. "[_\-.]cache\d+"
-  -W, --with-file-types        Returns file info objects (like fs.Dirent)
-  -h, --help                   display help for command
+  -V, --version                          output the version number
+  -D, --is-only-dir                      Exacting directories only
+  -F, --is-only-file                     Exacting files only
+  -S, --excludes-symlink                 Excluding symbolic-links
+  -B, --excludes-binary                  Excluding binary files
+  -M, --matched-reg-exp <exp>            Ex. "\d+\.txt$"
+  -I, --ignored-reg-exp <exp>            Ex. "[_\-.]cache\d+"
+  -i, --include <globs...>               Ex. "src/**" "!src/cache/**"
+  -x, --exclude <globs...>               Ex. "node_modules/**"
+  -G, --respect-ignore-files <names...>  Ex. ".gitignore" ".npmignore"
+  --min-depth <n>                        Excluding entries shallower than n
+  --max-depth <n>                        Not descending deeper than n
+  --prune                                Not descending into the ignored/excluded directories
+  -L, --follow-symlinks                  Descending into the symbolic-links to directories
+  -c, --concurrency <n>                  The max number of the file system operations at once (default: 32)
+  --larger-than <size>                   Files of the size or larger. Ex. "10MB"
+  --smaller-than <size>                  Files of the size or smaller. Ex. "512KB"
+  --newer-than <age>                     Files modified within the age. Ex. "7d"
+  --older-than <age>                     Files modified before the age. Ex. "30d"
+  -e, --extensions <exts...>             Ex. "ts" "tsx"
+  -s, --sort <order>                     "name" | "path" | "dirs-first" | "files-first" | "mtime" | "size"
+  -W, --with-file-types                  Returns file info objects (like fs.Dirent)
+  -A, --with-stats                       Adds the stats to the file info objects (implies -W)
+  --stream                               Prints NDJSON as entries are found (without sorting)
+  -h, --help                             display help for command
  
 // Ex1. No options
 $ npx fs-hospitality ls "D:\Test"
@@ -46,6 +116,31 @@ $ npx fs-hospitality ls "D:\Test"
   'DirBar\\DirQuux\\fileQuux1-Symlink.txt',
   'DirBar\\DirQuux\\fileQuux1.txt'
 ]
+ 
+// Ex2. Glob patterns are matched on the forward-slash relative paths
+$ npx fs-hospitality ls "D:\Test" --include "DirBar/**" --exclude "DirBar/DirQuux/**"
+[ 'DirBar', 'DirBar\\fileBar1.txt' ]
+ 
+// Ex3. The pruned directories are never read
+$ npx fs-hospitality ls "D:\Test" --max-depth 1 --exclude "DirBar" --prune
+[
+  'DirFoo-Symlink',
+  'fileRoot2-Symlink.log',
+  'fileRoot2.log',
+  'FILE_ROOT1.TXT',
+  'DirFoo'
+]
+ 
+// Ex4. The files modified within 7 days and of 10MB or larger
+$ npx fs-hospitality ls "D:\Logs" --newer-than 7d --larger-than 10MB
+[ 'app-20221001.log', 'archive\\app-20220930.log' ]
+ 
+// Ex5. NDJSON is printed as entries are found
+$ npx fs-hospitality ls "D:\Test" --stream --is-only-file --exclude "DirBar" --prune
+"DirFoo-Symlink"
+"fileRoot2-Symlink.log"
+"fileRoot2.log"
+"FILE_ROOT1.TXT"
  */
 program
   .command('ls <dirPath>')
@@ -54,15 +149,244 @@ program
   .option('-D, --is-only-dir', 'Exacting directories only')
   .option('-F, --is-only-file', 'Exacting files only')
   .option('-S, --excludes-symlink', 'Excluding symbolic-links')
+  .option('-B, --excludes-binary', 'Excluding binary files')
   .option('-M, --matched-reg-exp <exp>', 'Ex. "\\.txt$"')
   .option('-I, --ignored-reg-exp <exp>', 'Ex. "[_\\-.]cache\\d+"')
+  .option('-i, --include <globs...>', 'Ex. "src/**" "!src/cache/**"')
+  .option('-x, --exclude <globs...>', 'Ex. "node_modules/**"')
+  .option(
+    '-G, --respect-ignore-files <names...>',
+    'Ex. ".gitignore" ".npmignore"',
+  )
+  .option('--min-depth <n>', 'Excluding entries shallower than n', toInt)
+  .option('--max-depth <n>', 'Not descending deeper than n', toInt)
+  .option('--prune', 'Not descending into the ignored/excluded directories')
+  .option(
+    '-L, --follow-symlinks',
+    'Descending into the symbolic-links to directories',
+  )
+  .option(
+    '-c, --concurrency <n>',
+    'The max number of the file system operations at once (default: 32)',
+    toPositiveInt,
+  )
+  .option(
+    '--larger-than <size>',
+    'Files of the size or larger. Ex. "10MB"',
+    toBytes,
+  )
+  .option(
+    '--smaller-than <size>',
+    'Files of the size or smaller. Ex. "512KB"',
+    toBytes,
+  )
+  .option(
+    '--newer-than <age>',
+    'Files modified within the age. Ex. "7d"',
+    toPastDate,
+  )
+  .option(
+    '--older-than <age>',
+    'Files modified before the age. Ex. "30d"',
+    toPastDate,
+  )
+  .option('-e, --extensions <exts...>', 'Ex. "ts" "tsx"')
+  .option(
+    '-s, --sort <order>',
+    '"name" | "path" | "dirs-first" | "files-first" | "mtime" | "size"',
+  )
   .option('-W, --with-file-types', 'Returns file info objects (fs.Dirent)')
+  .option(
+    '-A, --with-stats',
+    'Adds the stats to the file info objects (implies -W)',
+  )
+  .option('--stream', 'Prints NDJSON as entries are found (without sorting)')
   .action(async (dirPath, options) => {
-    const dest = await fsh.readdirRecursively(dirPath, options);
+    // @note Warns the unreadable paths instead of crashing
+    const walkOptions = {
+      ...options,
+      minSize: options.largerThan,
+      maxSize: options.smallerThan,
+      modifiedAfter: options.newerThan,
+      modifiedBefore: options.olderThan,
+      onError: (walkError: fsh.WalkError) => {
+        console.error(`Warning: ${walkError.error.message}`);
+      },
+    };
+
+    if (options.stream) {
+      if (options.sort || options.concurrency) {
+        console.error('--stream can not be used with --sort or --concurrency');
+        process.exitCode = 1;
+        return;
+      }
+
+      // eslint-disable-next-line no-restricted-syntax
+      for await (const fileInfo of fsh.walkDir(dirPath, walkOptions)) {
+        const line = JSON.stringify(
+          options.withFileTypes || options.withStats
+            ? fileInfo
+            : fileInfo.relPath,
+        );
+
+        // @note Waits for the stdout to be drained not to buffer too much
+        if (!process.stdout.write(`${line}\n`)) {
+          await once(process.stdout, 'drain');
+        }
+      }
+      return;
+    }
+
+    const dest = await fsh.readdirRecursively(dirPath, walkOptions);
 
     console.dir(dest);
   });
 
+// links
+
+/**
+ * @function links
+ * @memberof CLI
+ * @example
+Usage: npx fs-hospitality links [options] <action> <dirPath>
+ 
+Listing, verifying, retargeting or deleting the symbolic-links in a directory.
+ 
+Options:
+  -V, --version             output the version number
+  -x, --exclude <globs...>  Ex. "node_modules/**"
+  --prune                   Not descending into the excluded directories
+  --from <dirPath>          retarget: The old directory of the targets
+  --to <dirPath>            retarget: The new directory of the targets
+  --dry-run                 retarget, delete: Printing the changes only
+  -h, --help                display help for command
+ 
+// Ex1. Lists all the symbolic-links
+$ npx fs-hospitality links list "D:\Test"
+[
+  {
+    path: 'D:\\Test\\DirFoo-Symlink',
+    type: 'symlink',
+    target: 'D:\\Test\\DirFoo',
+    resolvedTarget: 'D:\\Test\\DirFoo',
+    isDangling: false,
+    isDirectory: true
+  },
+  ...
+]
+ 
+// Ex2. Exits with 1 if any broken links
+$ npx fs-hospitality links verify "D:\Test"
+broken: D:\Test\assets -> D:\Shared\assets
+ 
+// Ex3. Retargets the broken links into the moved directory
+$ npx fs-hospitality links retarget "D:\Test" --from "D:\Shared" --to "E:\Shared"
+retargeted: D:\Test\assets -> E:\Shared\assets
+ 
+// Ex4.
+$ npx fs-hospitality links delete "D:\Test" --dry-run
+deleted (dry-run): D:\Test\assets
+ */
+program
+  .command('links <action> <dirPath>')
+  .version('1.0.0')
+  .description(
+    'Listing, verifying, retargeting or deleting the symbolic-links in a directory.',
+  )
+  .option('-x, --exclude <globs...>', 'Ex. "node_modules/**"')
+  .option('--prune', 'Not descending into the excluded directories')
+  .option('--from <dirPath>', 'retarget: The old directory of the targets')
+  .option('--to <dirPath>', 'retarget: The new directory of the targets')
+  .option('--dry-run', 'retarget, delete: Printing the changes only')
+  .action(async (action, dirPath, options) => {
+    const walkOptions = {
+      exclude: options.exclude,
+      prune: options.prune,
+      onError: (walkError: fsh.WalkError) => {
+        console.error(`Warning: ${walkError.error.message}`);
+      },
+    };
+    const dryRun = obtain(options, 'dryRun', false);
+    const dryRunMark = dryRun ? ' (dry-run)' : '';
+
+    if (action === 'list') {
+      const fileInfos = (await fsh.readdirRecursively(dirPath, {
+        ...walkOptions,
+        withFileTypes: true,
+      })) as fsh.FileInfo[];
+      const linkInfos = await Promise.all(
+        fileInfos
+          .filter((fileInfo) => fileInfo.isSymbolicLink)
+          .map((fileInfo) => fsh.readLinkInfo(fileInfo.path)),
+      );
+
+      console.dir(linkInfos);
+      return;
+    }
+
+    if (!['verify', 'retarget', 'delete'].includes(action)) {
+      console.error(`Unknown action: ${action}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (action === 'retarget' && !(options.from && options.to)) {
+      console.error('retarget requires --from and --to');
+      process.exitCode = 1;
+      return;
+    }
+
+    const brokenLinks = await fsh.findBrokenLinks(dirPath, walkOptions);
+
+    brokenLinks.forEach((linkInfo) => {
+      if (action === 'verify') {
+        console.log(`broken: ${linkInfo.path} -> ${linkInfo.target}`);
+        process.exitCode = 1;
+      } else if (action === 'delete') {
+        if (!dryRun) fs.unlinkSync(linkInfo.path);
+        console.log(`deleted${dryRunMark}: ${linkInfo.path}`);
+      } else {
+        const relTarget = path.relative(
+          path.resolve(options.from),
+          linkInfo.resolvedTarget,
+        );
+        if (relTarget.startsWith('..') || path.isAbsolute(relTarget)) return;
+
+        // @note Not to lose the link, checks the new target before unlinking
+        const newTarget = path.join(path.resolve(options.to), relTarget);
+        if (!fs.existsSync(newTarget)) {
+          console.error(`failed: ${linkInfo.path} (${newTarget} not found)`);
+          process.exitCode = 1;
+          return;
+        }
+
+        if (!dryRun) {
+          // @note Creates the new link beside and renames it over the old one, not to lose the link on failure
+          const tmpLinkPath = fsh.makeTmpPath(
+            path.dirname(linkInfo.path),
+            `.${path.basename(linkInfo.path)}.`,
+            '.tmp',
+          );
+
+          try {
+            fsh.createLinkSync(newTarget, tmpLinkPath, {
+              relative: !path.isAbsolute(linkInfo.target),
+            });
+            fs.renameSync(tmpLinkPath, linkInfo.path);
+          } catch (e) {
+            fs.rmSync(tmpLinkPath, { force: true });
+            console.error(`failed: ${linkInfo.path} (${(e as Error).message})`);
+            process.exitCode = 1;
+            return;
+          }
+        }
+        console.log(
+          `retargeted${dryRunMark}: ${linkInfo.path} -> ${newTarget}`,
+        );
+      }
+    });
+  });
+
 // detect-text-spec
 
 /**
@@ -75,7 +399,8 @@ Detecting a text specification.
  
 Options:
   -V, --version      output the version number
-  -T, --type <name>  "all" | "encoding" | "eol"
+  -T, --type <name>  "all" | "encoding" | "eol" | "bom" (default: "all")
+  -D, --detailed     Count every EOL and report the mixed EOLs
   -h, --help         display help for command
  
 // Ex1.
@@ -85,22 +410,50 @@ SJIS
 // Ex2.
 $ npx fs-hospitality detect-text-spec "D:\Test\src.wsf" --type "eol"
 crlf
+ 
+// Ex3.
+$ npx fs-hospitality detect-text-spec "D:\Test\src.wsf" --type "eol" --detailed
+{"counts":{"crlf":1,"lf":999,"cr":0},"mixed":true,"dominant":"lf"}
+ 
+// Ex4. Prints "none" if the file does not have BOM
+$ npx fs-hospitality detect-text-spec "D:\Test\src.wsf" --type "bom"
+UTF-8
+ 
+// Ex5.
+$ npx fs-hospitality detect-text-spec "D:\Test\src.wsf"
+{"encoding":"UTF-8","eol":"crlf","bom":"UTF-8"}
  */
 program
   .command('detect-text-spec <filePath>')
   .version('1.0.0')
   .description('Detecting a text specification.')
-  .option('-T, --type <name>', '"all" | "encoding" | "eol"')
+  .option('-T, --type <name>', '"all" | "encoding" | "eol" | "bom"', 'all')
+  .option('-D, --detailed', 'Count every EOL and report the mixed EOLs')
   .action((filePath, options) => {
     const detectType = obtain(options, 'type', 'all');
+    const detailed = obtain(options, 'detailed', false);
     const data = fs.readFileSync(filePath);
+    const detectEol = () =>
+      detailed ? fsh.detectTextEolDetailed(data) : fsh.detectTextEol(data);
 
-    if (detectType === 'encoding' || detectType === 'all') {
+    if (detectType === 'encoding') {
       console.log(fsh.detectTextEncoding(data));
-    }
-
-    if (detectType === 'eol' || detectType === 'all') {
-      console.log(fsh.detectTextEol(data));
+    } else if (detectType === 'eol') {
+      const eol = detectEol();
+      console.log(typeof eol === 'string' ? eol : JSON.stringify(eol));
+    } else if (detectType === 'bom') {
+      console.log(fsh.detectTextBom(data) || 'none');
+    } else if (detectType === 'all') {
+      console.log(
+        JSON.stringify({
+          encoding: fsh.detectTextEncoding(data),
+          eol: detectEol(),
+          bom: fsh.detectTextBom(data),
+        }),
+      );
+    } else {
+      console.error(`Unknown type: ${detectType}`);
+      process.exitCode = 1;
     }
   });
 
@@ -115,15 +468,26 @@ Usage: npx fs-hospitality conv-text [options] <filePath> [destPath]
 Converting a text encoding.
  
 Options:
-  -V, --version          output the version number
-  -T, --trim <type>      "all" | "start" | "end"
-  -E, --eol <type>       "lf" | "cr" | "crlf" or "unix" | "mac" | "dos"
-  -B, --bom              Add BOM. Only UTFx encoding
-  -e, --encoding <name>  "UTF-16BE", "Shift_JIS", ... "Default: "utf8" (default: "utf8")
-  -h, --help             display help for command
+  -V, --version              output the version number
+  -T, --trim <type>          "all" | "start" | "end"
+  -E, --eol <type>           "lf" | "cr" | "crlf" or "unix" | "mac" | "dos"
+  -U, --unicode-line-breaks  Also convert U+2028, U+2029 and U+0085 with --eol
+  -B, --bom                  Add BOM. Only UTFx encoding
+  -e, --encoding <name>      "UTF-16BE", "Shift_JIS", ... "Default: "utf8" (default: "utf8")
+  -n, --dry-run              Report what would change without writing
+  -d, --diff                 Print a unified diff. Implies --dry-run
+  -h, --help                 display help for command
  
 // Ex1.
 > npx fs-hospitality conv-text "D:\Test\src.wsf" --trim "all" --eol "dos" --bom
+ 
+// Ex2.
+> npx fs-hospitality conv-text "D:\Test\src.wsf" --eol "dos" --bom --dry-run
+D:\Test\src.wsf: will change
+  encoding: SJIS -> utf8
+  bom: added
+  eol: crlf 0, lf 12, cr 0 -> crlf 12, lf 0, cr 0
+  trimmed lines: 0
  */
 program
   .command('conv-text <filePath> [destPath]')
@@ -131,27 +495,137 @@ program
   .description('Converting a text encoding.')
   .option('-T, --trim <type>', '"all" | "start" | "end"')
   .option('-E, --eol <type>', '"lf" | "cr" | "crlf" or "unix" | "mac" | "dos"')
+  .option(
+    '-U, --unicode-line-breaks',
+    'Also convert U+2028, U+2029 and U+0085 with --eol',
+  )
   .option('-B, --bom', 'Add BOM. Only UTFx encoding')
   .option(
     '-e, --encoding <name>',
     '"UTF-16BE", "Shift_JIS", ... "Default: "utf8"',
     'utf8',
   )
+  .option('-n, --dry-run', 'Report what would change without writing')
+  .option('-d, --diff', 'Print a unified diff. Implies --dry-run')
   .action((filePath, destPath, options) => {
     const trim = obtain(options, 'trim', null);
     const eol = obtain(options, 'eol', null);
+    const unicodeLineBreaks = obtain(options, 'unicodeLineBreaks', false);
     const bom = obtain(options, 'bom', null);
     const encoding = obtain(options, 'encoding', null);
+    const diff = obtain(options, 'diff', false);
+    const dryRun = obtain(options, 'dryRun', false) || diff;
     const textData = fsh.readAsTextSync(filePath);
 
     let dest = destPath;
     if (!dest) dest = filePath;
 
-    fsh.writeAsTextSync(dest, textData, {
+    const writeOptions = {
       trim,
       eol,
+      unicodeLineBreaks,
       bom,
       encoding,
+    };
+
+    if (!dryRun) {
+      fsh.writeAsTextSync(dest, textData, writeOptions);
+      return;
+    }
+
+    const report = fsh.writeAsTextSync(dest, textData, {
+      ...writeOptions,
+      dryRun: true,
+      diff,
+      srcPath: filePath,
+    });
+
+    const eolsStr = (eols: fsh.EolCounts) =>
+      `crlf ${eols.crlf}, lf ${eols.lf}, cr ${eols.cr}`;
+    let bomStr = report.destBom ? 'kept' : 'none';
+    if (report.srcBom !== report.destBom) {
+      bomStr = report.destBom ? 'added' : 'removed';
+    }
+
+    const pathStr =
+      report.srcPath === report.destPath
+        ? report.destPath
+        : `${report.srcPath} -> ${report.destPath}`;
+    console.log(`${pathStr}: ${report.changed ? 'will change' : 'unchanged'}`);
+    console.log(
+      `  encoding: ${report.srcEncoding || '(new file)'} -> ${
+        report.destEncoding
+      }`,
+    );
+    console.log(`  bom: ${bomStr}`);
+    console.log(
+      `  eol: ${eolsStr(report.srcEols)} -> ${eolsStr(report.destEols)}`,
+    );
+    console.log(`  trimmed lines: ${report.trimmedLines}`);
+    if (diff) console.log(report.diff);
+  });
+
+// conv-tree
+
+/**
+ * @function conv-tree
+ * @memberof CLI
+ * @example
+Usage: npx fs-hospitality conv-tree [options] <srcDir> [destDir]
+ 
+Converting text files in a directory tree.
+ 
+Options:
+  -V, --version                output the version number
+  -M, --matched-reg-exp <exp>  Ex. "\.(vbs|wsf)$"
+  -I, --ignored-reg-exp <exp>  Ex. "[_\-.]cache\d+"
+  -s, --src-encoding <name>    "Shift_JIS", ... Default: auto-detecting
+  -T, --trim <type>            "all" | "start" | "end"
+  -E, --eol <type>             "lf" | "cr" | "crlf" or "unix" | "mac" | "dos"
+  -U, --unicode-line-breaks    Also convert U+2028, U+2029 and U+0085 with --eol
+  -B, --bom                    Add BOM. Only UTFx encoding
+  -e, --encoding <name>        "UTF-16BE", "Shift_JIS", ... "Default: "utf8" (default: "utf8")
+  -h, --help                   display help for command
+ 
+// Ex1.
+> npx fs-hospitality conv-tree "D:\Legacy" "D:\Converted" -M "\.vbs$" --eol "dos" --bom
+converted: Scripts\main.vbs (SJIS -> utf8)
+converted: Scripts\sub.vbs (UTF-8 -> utf8)
+ */
+program
+  .command('conv-tree <srcDir> [destDir]')
+  .version('1.0.0')
+  .description('Converting text files in a directory tree.')
+  .option('-M, --matched-reg-exp <exp>', 'Ex. "\\.(vbs|wsf)$"')
+  .option('-I, --ignored-reg-exp <exp>', 'Ex. "[_\\-.]cache\\d+"')
+  .option(
+    '-s, --src-encoding <name>',
+    '"Shift_JIS", ... Default: auto-detecting',
+  )
+  .option('-T, --trim <type>', '"all" | "start" | "end"')
+  .option('-E, --eol <type>', '"lf" | "cr" | "crlf" or "unix" | "mac" | "dos"')
+  .option(
+    '-U, --unicode-line-breaks',
+    'Also convert U+2028, U+2029 and U+0085 with --eol',
+  )
+  .option('-B, --bom', 'Add BOM. Only UTFx encoding')
+  .option(
+    '-e, --encoding <name>',
+    '"UTF-16BE", "Shift_JIS", ... "Default: "utf8"',
+    'utf8',
+  )
+  .action(async (srcDir, destDir, options) => {
+    const results = await fsh.convertTextTree(srcDir, destDir, options);
+
+    results.forEach((r) => {
+      if (r.error) {
+        console.error(`failed: ${r.relPath} (${r.error.message})`);
+        process.exitCode = 1;
+      } else {
+        console.log(
+          `converted: ${r.relPath} (${r.srcEncoding} -> ${options.encoding})`,
+        );
+      }
     });
   });
 
@@ -1,11 +1,14 @@
 import * as chardet from 'chardet';
-import { exec, execSync } from 'child_process';
+import { createTwoFilesPatch } from 'diff';
 import * as EncodingJp from 'encoding-japanese';
 import * as fs from 'fs';
 import * as iconv from 'iconv-lite';
+import ignore, { Ignore } from 'ignore';
 import * as _ from 'lodash';
+import minimatch from 'minimatch';
 import * as os from 'os';
 import * as path from 'path';
+import { pipeline, Transform, Writable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 
 /** @namespace API */
@@ -79,6 +82,426 @@ export function detectTextEncoding(textData: Buffer | string): string {
   return chardetVal;
 }
 
+/**
+ * @typedef {object} EncodingCandidate
+ * @property {string} encoding - A name of character encoding
+ * @property {number} confidence - 0 to 100
+ * @property {string} source - "chardet" | "encoding-japanese"
+ * @property {string} [lang] - A language guessed by chardet
+ */
+export interface EncodingCandidate {
+  encoding: string;
+  confidence: number;
+  source: 'chardet' | 'encoding-japanese';
+  lang?: string;
+}
+
+/**
+ * @typedef {object} EncodingDetection
+ * @property {string} encoding - The winner's encoding
+ * @property {number} confidence - The winner's confidence. 0 to 100
+ * @property {string} reason - "highest-confidence" | "windows-1252-fallback" | "hint"
+ * @property {EncodingCandidate[]} candidates - Sorted by confidence
+ */
+export interface EncodingDetection {
+  encoding: string;
+  confidence: number;
+  reason: 'highest-confidence' | 'windows-1252-fallback' | 'hint';
+  candidates: EncodingCandidate[];
+}
+
+/**
+ * @typedef {object} DetectTextEncodingOptions
+ * @readonly
+ * @property {number} [sampleSize] - Bytes from the head to analyse. The default is all
+ * @property {string[]} [hints] - Encodings to favor when they are nearly as confident as the top
+ * @property {string[]} [allowed] - Encodings to keep in the candidates
+ */
+export type DetectTextEncodingOptions = {
+  sampleSize?: number;
+  hints?: string[];
+  allowed?: string[];
+};
+
+/** @private */
+const ENCODING_JP_CHECKS: EncodingJp.Encoding[] = [
+  'UTF32',
+  'UTF16',
+  'UTF16BE',
+  'UTF16LE',
+  'JIS',
+  'UTF8',
+  'EUCJP',
+  'SJIS',
+];
+
+/** @private */
+const HINT_MARGIN = 10;
+
+/**
+ * @private
+ * @param {string} encoding - A name of character encoding
+ * @returns {string} - Ex. "Shift_JIS" -> "sjis", "UTF-16LE" -> "utf16le"
+ */
+function _normalizeEncodingName(encoding: string): string {
+  const name = encoding.toLowerCase().replace(/[^0-9a-z]/g, '');
+  if (/^(shiftjis|windows31j|cp932|mskanji)$/.test(name)) return 'sjis';
+  return name;
+}
+
+/**
+ * Detects the character encoding of a Buffer or a file-path with the confidence scores. The candidates are analysed by both {@link https://github.com/runk/node-chardet|chardet} and {@link https://github.com/polygonplanet/encoding.js|encoding.js}. The score of encoding.js is 100 divided by the number of encodings the data is valid in.
+ *
+ * @memberof API
+ * @param {(Buffer|string)} textData - A Buffer or a file-path
+ * @param {DetectTextEncodingOptions} [options] - Optional parameters
+ * @returns {EncodingDetection} -
+ * @example
+const { detectTextEncodingDetailed } = require('@tuckn/fs-hospitality');
+
+const detection = detectTextEncodingDetailed('D:\\Test\\SjisNote.txt');
+// Returns: {
+//   encoding: 'SJIS',
+//   confidence: 100,
+//   reason: 'highest-confidence',
+//   candidates: [
+//     { encoding: 'SJIS', confidence: 100, source: 'encoding-japanese' },
+//     { encoding: 'windows-1252', confidence: 30, source: 'chardet', lang: 'pt' },
+//     ...
+//   ]
+// }
+
+if (detection.confidence < 50) console.log('Needs review');
+ */
+export function detectTextEncodingDetailed(
+  textData: Buffer | string,
+  options: DetectTextEncodingOptions = {},
+): EncodingDetection {
+  let buf = textDataToBuf(textData);
+
+  const sampleSize = _.get(options, 'sampleSize', 0);
+  if (sampleSize > 0) buf = buf.subarray(0, sampleSize);
+
+  let candidates: EncodingCandidate[] = chardet.analyse(buf).map((match) => {
+    const candidate: EncodingCandidate = {
+      encoding: match.name,
+      confidence: match.confidence,
+      source: 'chardet',
+    };
+    if (match.lang) candidate.lang = match.lang;
+    return candidate;
+  });
+
+  const jpVal = EncodingJp.detect(buf);
+  if (jpVal) {
+    const validNum = ENCODING_JP_CHECKS.filter((enc) =>
+      EncodingJp.detect(buf, enc),
+    ).length;
+
+    candidates.push({
+      encoding: jpVal,
+      confidence: Math.round(100 / Math.max(validNum, 1)),
+      source: 'encoding-japanese',
+    });
+  }
+
+  const allowed = _.get(options, 'allowed', []).map(_normalizeEncodingName);
+  if (allowed.length > 0) {
+    candidates = candidates.filter((c) =>
+      allowed.includes(_normalizeEncodingName(c.encoding)),
+    );
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(
+      `TypeError [ERR_INVALID_CONTENT]: encoding is empty.${_errLoc(Function)}`,
+    );
+  }
+
+  // @note Array.prototype.sort is stable. chardet wins a tie
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  let winner = candidates[0];
+  let reason: EncodingDetection['reason'] = 'highest-confidence';
+
+  if (winner.source === 'chardet' && winner.encoding === 'windows-1252') {
+    const jpCandidate = candidates.find(
+      (c) => c.source === 'encoding-japanese',
+    );
+    if (jpCandidate) {
+      winner = jpCandidate;
+      reason = 'windows-1252-fallback';
+    }
+  }
+
+  const hints = _.get(options, 'hints', []).map(_normalizeEncodingName);
+  const hinted = candidates.find(
+    (c) =>
+      hints.includes(_normalizeEncodingName(c.encoding)) &&
+      c.confidence >= winner.confidence - HINT_MARGIN,
+  );
+  if (hinted && hinted !== winner) {
+    winner = hinted;
+    reason = 'hint';
+  }
+
+  return {
+    encoding: winner.encoding,
+    confidence: winner.confidence,
+    reason,
+    candidates,
+  };
+}
+
+/** @private */
+const BINARY_SAMPLE_SIZE = 8000;
+
+/**
+ * @private
+ * @description The byte-order marks of UTF-16 and UTF-32. They contain NUL bytes but are text.
+ */
+const UTF16_32_BOMS: number[][] = [
+  [0x00, 0x00, 0xfe, 0xff], // UTF-32BE
+  [0xff, 0xfe, 0x00, 0x00], // UTF-32LE
+  [0xfe, 0xff], // UTF-16BE
+  [0xff, 0xfe], // UTF-16LE
+];
+
+/**
+ * @private
+ * @description BS, TAB, LF, VT, FF, CR and ESC. They are usual in text.
+ */
+const TEXT_CONTROLS = [0x08, 0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x1b];
+
+/** @private */
+const BINARY_SIGNATURES: number[][] = [
+  [0x89, 0x50, 0x4e, 0x47], // PNG
+  [0x47, 0x49, 0x46, 0x38], // GIF
+  [0xff, 0xd8, 0xff], // JPEG
+  [0x25, 0x50, 0x44, 0x46, 0x2d], // PDF
+  [0x50, 0x4b, 0x03, 0x04], // ZIP, docx, xlsx, jar
+  [0x1f, 0x8b, 0x08], // GZIP
+  [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], // 7z
+  [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07], // RAR
+  [0x7f, 0x45, 0x4c, 0x46], // ELF
+  [0x00, 0x00, 0x01, 0x00], // ICO
+  [0xca, 0xfe, 0xba, 0xbe], // Java class, Mach-O fat
+  [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], // MS Office 97-2003
+];
+
+/**
+ * @private
+ * @param {Buffer} buf - A Buffer
+ * @param {number[]} signature - Bytes to compare with the head of buf
+ * @returns {boolean} -
+ */
+function _startsWithBytes(buf: Buffer, signature: number[]): boolean {
+  if (buf.length < signature.length) return false;
+  return signature.every((byte, i) => buf[i] === byte);
+}
+
+/**
+ * @private
+ * @param {string} filePath - A file-path
+ * @param {number} size - Bytes to read from the head
+ * @returns {Buffer} - The head of the file
+ */
+function _readHeadSync(filePath: string, size: number): Buffer {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buf = Buffer.alloc(size);
+    const bytesRead = fs.readSync(fd, buf, 0, size, 0);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * @private
+ * @param {string} filePath - A file-path
+ * @param {number} size - Bytes to read from the head
+ * @returns {Promise<Buffer>} - The head of the file
+ */
+function _readHead(filePath: string, size: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    fs.open(filePath, 'r', (errOpen, fd) => {
+      if (errOpen) return reject(errOpen);
+
+      const buf = Buffer.alloc(size);
+      return fs.read(fd, buf, 0, size, 0, (errRead, bytesRead) => {
+        fs.close(fd, (errClose) => {
+          if (errRead || errClose) return reject(errRead || errClose);
+          return resolve(buf.subarray(0, bytesRead));
+        });
+      });
+    });
+  });
+}
+
+/**
+ * @private
+ * @param {Buffer} buf - The head of data
+ * @param {boolean} isLittleEndian - UTF-16LE or UTF-16BE
+ * @returns {boolean} - Whether the code units are valid UTF-16 without control characters
+ */
+function _isUtf16Text(buf: Buffer, isLittleEndian: boolean): boolean {
+  // @note Ignores the odd last byte cut off by the sampling
+  const unitsNum = Math.floor(buf.length / 2);
+  let i = 0;
+
+  while (i < unitsNum) {
+    const unit = isLittleEndian
+      ? buf.readUInt16LE(i * 2)
+      : buf.readUInt16BE(i * 2);
+
+    if (unit < 0x20 && !TEXT_CONTROLS.includes(unit)) return false;
+    if (unit >= 0x7f && unit <= 0x9f) return false;
+    if (unit === 0xfffe || unit === 0xffff) return false;
+    if (unit >= 0xdc00 && unit <= 0xdfff) return false; // A lone low surrogate
+
+    if (unit >= 0xd800 && unit <= 0xdbff) {
+      // @note A high surrogate cut off by the sampling is allowed
+      if (i + 1 < unitsNum) {
+        const next = isLittleEndian
+          ? buf.readUInt16LE((i + 1) * 2)
+          : buf.readUInt16BE((i + 1) * 2);
+        if (next < 0xdc00 || next > 0xdfff) return false;
+      }
+
+      i += 1;
+    }
+
+    i += 1;
+  }
+
+  return unitsNum > 0;
+}
+
+/**
+ * @private
+ * @param {Buffer} buf - The head of data
+ * @returns {boolean} -
+ */
+function _isBinaryBuffer(buf: Buffer): boolean {
+  const sample = buf.subarray(0, BINARY_SAMPLE_SIZE);
+  if (sample.length === 0) return false;
+
+  if (UTF16_32_BOMS.some((bom) => _startsWithBytes(sample, bom))) return false;
+  if (BINARY_SIGNATURES.some((sig) => _startsWithBytes(sample, sig))) {
+    return true;
+  }
+
+  let nulEven = 0;
+  let nulOdd = 0;
+  let controls = 0;
+  sample.forEach((byte, i) => {
+    if (byte === 0x00) {
+      if (i % 2 === 0) nulEven += 1;
+      else nulOdd += 1;
+    } else if (byte < 0x20 && !TEXT_CONTROLS.includes(byte)) {
+      controls += 1;
+    }
+  });
+
+  if (nulEven > 0 && nulOdd > 0) return true;
+
+  // @note UTF-16 without BOM has NULs on only one side, the high bytes of ASCII. Japanese text may have no NULs but the control-like bytes. e.g. 0x01 of U+3001
+  if (nulOdd > 0) return !_isUtf16Text(sample, true);
+  if (nulEven > 0) return !_isUtf16Text(sample, false);
+  if (controls / sample.length <= 0.1) return false;
+
+  return !_isUtf16Text(sample, true) && !_isUtf16Text(sample, false);
+}
+
+/**
+ * Checks whether a Buffer or a file-path is binary (not text). Inspects the head of data with the magic numbers of common binary formats, NUL bytes and control characters. UTF-16/32 text is not binary.
+ *
+ * @memberof API
+ * @param {(Buffer|string)} textData - A Buffer or a file-path
+ * @returns {boolean} -
+ * @example
+const { isBinaryFile } = require('@tuckn/fs-hospitality');
+
+isBinaryFile('D:\\Test\\image.png'); // true
+isBinaryFile('D:\\Test\\Utf16LeNote.txt'); // false
+ */
+export function isBinaryFile(textData: Buffer | string): boolean {
+  if (Buffer.isBuffer(textData)) return _isBinaryBuffer(textData);
+
+  if (!textData || !fs.existsSync(textData)) {
+    throw new Error(
+      `${ARG_ERR}textData is not a valid file-path.${_errLoc(Function)}`,
+    );
+  }
+
+  return _isBinaryBuffer(_readHeadSync(textData, BINARY_SAMPLE_SIZE));
+}
+
+/**
+ * The inverse of this API: isBinaryFile().
+ *
+ * @memberof API
+ * @param {(Buffer|string)} textData - A Buffer or a file-path
+ * @returns {boolean} -
+ * @example
+const { isTextFile } = require('@tuckn/fs-hospitality');
+
+isTextFile('D:\\Test\\SjisNote.txt'); // true
+isTextFile('D:\\Test\\app.exe'); // false
+ */
+export function isTextFile(textData: Buffer | string): boolean {
+  return !isBinaryFile(textData);
+}
+
+/**
+ * @private
+ * @description UTF-32 before UTF-16 because UTF-32LE BOM starts with UTF-16LE BOM.
+ */
+const BOM_TYPES: { name: string; bytes: number[] }[] = [
+  { name: 'UTF-8', bytes: [0xef, 0xbb, 0xbf] },
+  { name: 'UTF-32BE', bytes: [0x00, 0x00, 0xfe, 0xff] },
+  { name: 'UTF-32LE', bytes: [0xff, 0xfe, 0x00, 0x00] },
+  { name: 'UTF-16BE', bytes: [0xfe, 0xff] },
+  { name: 'UTF-16LE', bytes: [0xff, 0xfe] },
+];
+
+/**
+ * @private
+ * @param {Buffer} buf - The head of data
+ * @returns {string} - The BOM type or ""
+ */
+function _detectBom(buf: Buffer): string {
+  const bomType = BOM_TYPES.find((t) => _startsWithBytes(buf, t.bytes));
+
+  return bomType ? bomType.name : '';
+}
+
+/**
+ * Detects the BOM (byte order mark) of a Buffer or a file-path.
+ *
+ * @memberof API
+ * @param {(Buffer|string)} textData - A Buffer or a file-path
+ * @returns {string} - "UTF-8" | "UTF-16LE" | "UTF-16BE" | "UTF-32LE" | "UTF-32BE" | "" (none)
+ * @example
+const { detectTextBom } = require('@tuckn/fs-hospitality');
+
+detectTextBom('D:\\Test\\Utf8Bom.wsf'); // 'UTF-8'
+detectTextBom('D:\\Test\\Utf16LeBom.txt'); // 'UTF-16LE'
+detectTextBom('D:\\Test\\SjisNote.txt'); // ''
+ */
+export function detectTextBom(textData: Buffer | string): string {
+  if (Buffer.isBuffer(textData)) return _detectBom(textData);
+
+  if (!textData || !fs.existsSync(textData)) {
+    throw new Error(
+      `${ARG_ERR}textData is not a valid file-path.${_errLoc(Function)}`,
+    );
+  }
+
+  return _detectBom(_readHeadSync(textData, 4));
+}
+
 /**
  * Decodes a Buffer of text with automatically detecting encoding
  *
@@ -100,6 +523,51 @@ export function decodeTextBuffer(textBuf: Buffer, encoding = ''): string {
   return iconv.decode(textBuf, enc);
 }
 
+/**
+ * @private
+ * @param {string} text - A decoded text
+ * @returns {string} - "crlf" | "cr" | "lf" | ""
+ */
+function _detectEol(text: string): string {
+  if (_.isString(text)) {
+    if (/\r\n/.test(text)) return 'crlf';
+    if (/\r/.test(text)) return 'cr';
+    if (/\n/.test(text)) return 'lf';
+  }
+
+  return '';
+}
+
+/**
+ * @typedef {object} EolCounts
+ * @property {number} crlf - The number of CRLF
+ * @property {number} lf - The number of LF without CR
+ * @property {number} cr - The number of CR without LF
+ */
+export interface EolCounts {
+  crlf: number;
+  lf: number;
+  cr: number;
+}
+
+/**
+ * @private
+ * @param {string} strData - A string
+ * @returns {EolCounts} -
+ */
+function _countEols(strData: string): EolCounts {
+  const counts: EolCounts = { crlf: 0, lf: 0, cr: 0 };
+  const matches = strData.match(/\r\n|\r|\n/g) || [];
+
+  matches.forEach((eol) => {
+    if (eol === '\r\n') counts.crlf += 1;
+    else if (eol === '\n') counts.lf += 1;
+    else counts.cr += 1;
+  });
+
+  return counts;
+}
+
 /**
  * Detects the EOL (End of Line) character of a Buffer or a file-path.
  *
@@ -123,13 +591,62 @@ export function detectTextEol(textData: Buffer | string): string {
     throw new Error(`${ARG_ERR}textData is empty.${_errLoc(Function)}`);
   }
 
-  if (_.isString(text)) {
-    if (/\r\n/.test(text)) return 'crlf';
-    if (/\r/.test(text)) return 'cr';
-    if (/\n/.test(text)) return 'lf';
+  return _detectEol(text);
+}
+
+/**
+ * @typedef {object} EolDetection
+ * @property {EolCounts} counts - The numbers of CRLF, LF and lone CR
+ * @property {boolean} mixed - Whether two or more EOL types are used
+ * @property {string} dominant - The most used EOL. "crlf" | "cr" | "lf" | ""
+ */
+export interface EolDetection {
+  counts: EolCounts;
+  mixed: boolean;
+  dominant: string;
+}
+
+/**
+ * @private
+ * @param {string} text - A decoded text
+ * @returns {EolDetection} -
+ */
+function _detectEolDetailed(text: string): EolDetection {
+  const counts = _countEols(text);
+  const usedTypes = (['crlf', 'lf', 'cr'] as const).filter(
+    (t) => counts[t] > 0,
+  );
+
+  // @note On a tie, prefers the former in usedTypes
+  const dominant = _.maxBy(usedTypes, (t) => counts[t]) || '';
+
+  return { counts, mixed: usedTypes.length > 1, dominant };
+}
+
+/**
+ * Counts every EOL (End of Line) character of a Buffer or a file-path. Unlike {@link API.detectTextEol}, this reports mixed EOLs.
+ *
+ * @memberof API
+ * @param {(Buffer|string)} textData - Buffer of file-path
+ * @returns {EolDetection} -
+ * @example
+const { detectTextEolDetailed } = require('@tuckn/fs-hospitality');
+
+const eolDetection = detectTextEolDetailed('D:\\Test\\MixedEol.txt');
+// Returns: {
+//   counts: { crlf: 1, lf: 999, cr: 0 },
+//   mixed: true,
+//   dominant: 'lf'
+// }
+ */
+export function detectTextEolDetailed(textData: Buffer | string): EolDetection {
+  const buf = textDataToBuf(textData);
+  const text = decodeTextBuffer(buf);
+  if (!text) {
+    throw new Error(`${ARG_ERR}textData is empty.${_errLoc(Function)}`);
   }
 
-  return '';
+  return _detectEolDetailed(text);
 }
 
 /**
@@ -159,12 +676,83 @@ export function readFilePromise(
 }
 
 /**
- * Reads a Buffer or a file-path as text and encodes it into a String.
+ * @typedef {object} ReadAsTextOptions
+ * @readonly
+ * @property {boolean} [rejectsBinary=false] - If true, throws an Error for a binary file. See {@link API.isBinaryFile}
+ * @property {boolean} [raw=false] - If true, returns the Buffer untouched. Same as the encoding "binary"
+ */
+export type ReadAsTextOptions = {
+  rejectsBinary?: boolean;
+  raw?: boolean;
+};
+
+/**
+ * @private
+ * @param {Buffer} data - The contents read
+ * @param {ReadAsTextOptions} [options] - Optional parameters
+ * @returns {void}
+ */
+function _validateReadText(data: Buffer, options: ReadAsTextOptions): void {
+  if (_.get(options, 'rejectsBinary', false) && _isBinaryBuffer(data)) {
+    throw new Error(
+      `TypeError [ERR_INVALID_CONTENT]: textFile is binary.${_errLoc(
+        Function,
+      )}`,
+    );
+  }
+}
+
+/**
+ * @private
+ * @param {string} encoding - The encoding argument
+ * @param {ReadAsTextOptions} options - Optional parameters
+ * @returns {boolean} - true when the data is to be returned as a Buffer
+ */
+function _isRawRead(encoding: string, options: ReadAsTextOptions): boolean {
+  return encoding === 'binary' || _.get(options, 'raw', false);
+}
+
+/**
+ * The decoded text. Also a Buffer unless the encoding is a literal other than "binary", because the encoding can be "binary" at runtime.
+ *
+ * @private
+ */
+type TextOrBuffer<E extends string> = string extends E
+  ? string | Buffer
+  : 'binary' extends E
+  ? string | Buffer
+  : string;
+
+// @note Overloads to type the returned value with the encoding and raw option
+export function readAsText(
+  textFile: Buffer | string,
+  encoding: 'binary',
+  options?: ReadAsTextOptions,
+): Promise<Buffer>;
+export function readAsText(
+  textFile: Buffer | string,
+  encoding: string,
+  options: ReadAsTextOptions & { raw: true },
+): Promise<Buffer>;
+export function readAsText<E extends string = ''>(
+  textFile: Buffer | string,
+  encoding?: E,
+  options?: ReadAsTextOptions & { raw?: false },
+): Promise<TextOrBuffer<E>>;
+export function readAsText(
+  textFile: Buffer | string,
+  encoding?: string,
+  options?: ReadAsTextOptions,
+): Promise<string | Buffer>;
+
+/**
+ * Reads a Buffer or a file-path as text and encodes it into a String. If the encoding is "binary" or the raw option is true, returns the Buffer untouched.
  *
  * @memberof API
  * @param {(Buffer|string)} textFile - Buffer or file-path
- * @param {string} [encoding=''] - If empty, auto-detecting
- * @returns {Promise<string>} -
+ * @param {string} [encoding=''] - If empty, auto-detecting. "binary" to get the Buffer
+ * @param {ReadAsTextOptions} [options] - Optional parameters
+ * @returns {Promise<string|Buffer>} - Buffer only when reading as "binary"
  * @example
 const { readAsText } = require('@tuckn/fs-hospitality');
 
@@ -184,38 +772,74 @@ fs.readFile(fileUtf16LE, async (err, data) => {
   console.log(textString);
   // Returns String parsed with UTF-16LE
 });
+
+// Ex.3 Rejecting a binary file
+readAsText('D:\\Test\\image.png', '', { rejectsBinary: true }).catch((err) => {
+  console.error(err);
+  // Error: TypeError [ERR_INVALID_CONTENT]: textFile is binary.
+});
+
+// Ex.4 As binary
+readAsText('D:\\Test\\image.png', 'binary').then((buf) => {
+  console.log(Buffer.isBuffer(buf)); // true
+});
  */
 export async function readAsText(
   textFile: Buffer | string,
   encoding = '',
-): Promise<string> {
+  options: ReadAsTextOptions = {},
+): Promise<string | Buffer> {
   if (!textFile) {
     return Promise.reject(
       new Error(`${ARG_ERR}textFile is empty.${_errLoc(Function)}`),
     );
   }
 
-  // Buffer
+  let data: Buffer;
   if (Buffer.isBuffer(textFile)) {
-    return decodeTextBuffer(textFile, encoding);
+    data = textFile;
+  } else {
+    // String (A file-path)
+    const filePath = path.resolve(textFile);
+    data = (await readFilePromise(filePath)) as Buffer;
   }
 
-  // String (A file-path)
-  const filePath = path.resolve(textFile);
-  const data = (await readFilePromise(filePath)) as Buffer;
+  _validateReadText(data, options);
 
-  // if (encoding === 'binary') return resolve(data);
-  // @todo When enc is 'binary'
+  if (_isRawRead(encoding, options)) return data;
   return decodeTextBuffer(data, encoding);
 }
 
+// @note Overloads to type the returned value with the encoding and raw option
+export function readAsTextSync(
+  textFile: string | Buffer,
+  encoding: 'binary',
+  options?: ReadAsTextOptions,
+): Buffer;
+export function readAsTextSync(
+  textFile: string | Buffer,
+  encoding: string,
+  options: ReadAsTextOptions & { raw: true },
+): Buffer;
+export function readAsTextSync<E extends string = ''>(
+  textFile: string | Buffer,
+  encoding?: E,
+  options?: ReadAsTextOptions & { raw?: false },
+): TextOrBuffer<E>;
+export function readAsTextSync(
+  textFile: string | Buffer,
+  encoding?: string,
+  options?: ReadAsTextOptions,
+): string | Buffer;
+
 /**
  * The synchronous version of this API: readAsText().
  *
  * @memberof API
  * @param {(Buffer|string)} textFile - Buffer or file-path
- * @param {string} [encoding=''] - If empty, auto-detecting
- * @returns {string} -
+ * @param {string} [encoding=''] - If empty, auto-detecting. "binary" to get the Buffer
+ * @param {ReadAsTextOptions} [options] - Optional parameters
+ * @returns {string|Buffer} - Buffer only when reading as "binary"
  * @example
 const { readAsTextSync } = require('@tuckn/fs-hospitality');
 
@@ -227,33 +851,51 @@ const textString = readAsTextSync('D:\\Test\\MyNoteSJIS.txt');
 const buf = fs.readFile('D:\\Test\\Utf16LE.log');
 const textString2 = readAsTextSync(buf);
 // Returns String parsed with UTF-16LE
+
+// Ex.3 As binary
+const buf2 = readAsTextSync('D:\\Test\\image.png', '', { raw: true });
+// Returns the Buffer
  */
 export function readAsTextSync(
   textFile: string | Buffer,
   encoding = '',
-): string {
+  options: ReadAsTextOptions = {},
+): string | Buffer {
   if (!textFile) {
     throw new Error(`${ARG_ERR}textFile is empty.${_errLoc(Function)}`);
   }
 
-  // Buffer
-  if (Buffer.isBuffer(textFile)) return decodeTextBuffer(textFile, encoding);
-
-  // String (A file-path)
-  const filePath = path.resolve(textFile);
-  const data = fs.readFileSync(filePath);
+  let data: Buffer;
+  if (Buffer.isBuffer(textFile)) {
+    data = textFile;
+  } else {
+    // String (A file-path)
+    const filePath = path.resolve(textFile);
+    data = fs.readFileSync(filePath);
+  }
+
+  _validateReadText(data, options);
 
-  // if (encoding === 'binary') return data;
-  // @todo When enc is 'binary'
+  if (_isRawRead(encoding, options)) return data;
   return decodeTextBuffer(data, encoding);
 }
 
 /**
- * Replaces the EOL (End of Line) character of a String.
+ * @typedef {object} ConvertEOLOptions
+ * @readonly
+ * @property {boolean} [unicodeLineBreaks=false] - If true, also replaces U+2028 (LINE SEPARATOR), U+2029 (PARAGRAPH SEPARATOR) and U+0085 (NEXT LINE)
+ */
+export type ConvertEOLOptions = {
+  unicodeLineBreaks?: boolean;
+};
+
+/**
+ * Replaces the EOL (End of Line) character of a String. Every CRLF, LF and lone CR is replaced.
  *
  * @memberof API
  * @param {string} strData - A string to be replaced
  * @param {string} eol - "(lf|unix|\n)" | "(cr|mac|\r)" | "(crlf|dos|\r\n)"
+ * @param {ConvertEOLOptions} [options] - Optional parameters
  * @returns {string} - A replaced string
  * @example
 const { convertEOL } = require('@tuckn/fs-hospitality');
@@ -269,15 +911,27 @@ const textLf = convertEOL(textCrLf, 'lf');
 //   + 'bar\n
 //   + '\n
 //   + 'baz'
+
+const textMixed = 'foo\rbar\u2028baz';
+convertEOL(textMixed, 'lf'); // Returns: 'foo\nbar\u2028baz'
+convertEOL(textMixed, 'lf', { unicodeLineBreaks: true }); // Returns: 'foo\nbar\nbaz'
  */
-export function convertEOL(strData: string, eol = ''): string {
+export function convertEOL(
+  strData: string,
+  eol = '',
+  options: ConvertEOLOptions = {},
+): string {
   let eolCode;
   if (/^(crlf|dos)$/i.test(eol)) eolCode = '\r\n';
   else if (/^(lf|unix)$/i.test(eol)) eolCode = '\n';
   else if (/^(cr|mac)$/i.test(eol)) eolCode = '\r';
   else eolCode = eol;
 
-  return strData.replace(/\r?\n/g, eolCode);
+  if (_.get(options, 'unicodeLineBreaks', false)) {
+    return strData.replace(/\r\n|[\r\n\u2028\u2029\u0085]/g, eolCode);
+  }
+
+  return strData.replace(/\r\n|[\r\n]/g, eolCode);
 }
 
 /**
@@ -320,33 +974,6 @@ export function makeTmpPath(baseDir = '', prefix = '', postfix = ''): string {
   return path.resolve(basePath, prefix + uuidv4() + postfix);
 }
 
-/**
- * Write the data to a new temporary path, and Return the path.
- *
- * @memberof API
- * @param {string | NodeJS.ArrayBufferView} data - A data to write
- * @param {object} [options] - See {@link https://nodejs.org/api/fs.html#fs_fs_writefilesync_file_data_options|Node.js fs.writeFileSync}
- * @returns {string} - A temporary file path
- * @example
-const { writeTmpFileSync } = require('@tuckn/fs-hospitality');
-
-const tmpStr = 'The Temporary Message';
-const tmpPath = writeTmpFileSync(tmpStr);
-// Returns: 'C:\Users\YourName\AppData\Local\Temp\7c70ceef-28f6-4ae8-b4ef-5e5d459ef007'
-
-const fs = require('fs');
-const readData = fs.readFileSync(tmpPath, { encoding: 'utf8' });
-console.log(tmpStr === readData); // true
- */
-export function writeTmpFileSync(
-  data: string | NodeJS.ArrayBufferView,
-  options = {},
-): string {
-  const tmpPath = makeTmpPath();
-  fs.writeFileSync(tmpPath, data, options);
-  return tmpPath;
-}
-
 /**
  * @private
  * @param {string} matched
@@ -403,17 +1030,35 @@ type TrimAllLinesOption = 'all' | 'start' | 'end';
  * @readonly
  * @property {TrimAllLinesOption} [trim]
  * @property {string} [eol] - See {@link convertEOL}
+ * @property {boolean} [unicodeLineBreaks=false] - See {@link ConvertEOLOptions}
  * @property {boolean} [bom]
  * @property {string} [encoding] - See {@link https://github.com/ashtuchkin/iconv-lite/wiki/Supported-Encodings|iconv-lite Supported Encodings}
  */
-type PrewriteAsTextOptions = {
+export type PrewriteAsTextOptions = {
   // trim?: TrimAllLinesOption;
   trim?: string;
   eol?: string;
+  unicodeLineBreaks?: boolean;
   bom?: boolean;
   encoding?: string;
 };
 
+/**
+ * Every key of PrewriteAsTextOptions. Typed not to be compiled when a key is added to the type only.
+ *
+ * @private
+ */
+const PREWRITE_OPTIONS: { [key in keyof PrewriteAsTextOptions]-?: true } = {
+  trim: true,
+  eol: true,
+  unicodeLineBreaks: true,
+  bom: true,
+  encoding: true,
+};
+
+/** @private */
+const PREWRITE_OPTION_KEYS = Object.keys(PREWRITE_OPTIONS);
+
 /**
  * @private
  * @param {string} [strData='']
@@ -432,105 +1077,116 @@ function _prewriteAsText(
   }
 
   const eol = _.get(options, 'eol', null);
-  if (eol) writtenData = convertEOL(writtenData, eol);
+  if (eol) {
+    writtenData = convertEOL(writtenData, eol, {
+      unicodeLineBreaks: _.get(options, 'unicodeLineBreaks', false),
+    });
+  }
 
   return writtenData;
 }
 
 /**
- * Write a String to the file as text. Also can specify an encoding, an EOL, BOM and trimming every line.
- *
- * @memberof API
- * @param {string} destPath - A destination file-path
- * @param {string} [strData=''] - A string of data to write
- * @param {PrewriteAsTextOptions} [options] - Optional parameters
- * @returns {Promise<void>} - { resolve:undefined, reject: Error }
- * @example
-const { writeAsText } = require('@tuckn/fs-hospitality');
-const vbsFile = 'D:\\Test\\utf8bom.vbs';
-const strData = 'Dim str As String  \n  str = "foo"\n  WScript.Echo str';
-const options = {
-  trim: 'all',
-  eol: 'crlf',
-  bom: true,
-  encoding: 'UTF-8',
-};
-
-writeAsText(vbsFile, strData, options).then(() => {
-  console.log('Writing successful');
-});
+ * @typedef {object} TextSpec
+ * @property {string} encoding - An encoding name
+ * @property {string} eol - "crlf" | "cr" | "lf" | "". If empty, the EOL is not converted
+ * @property {boolean} bom - Whether the text has BOM
  */
-export function writeAsText(
-  destPath: string,
-  strData = '',
-  options: PrewriteAsTextOptions = {},
-): Promise<void> {
-  if (!destPath) {
-    return Promise.reject(
-      new Error(`${ARG_ERR}destPath is empty.${_errLoc(Function)}`),
-    );
-  }
-
-  const filePath = path.resolve(destPath);
-  const writtenData = _prewriteAsText(strData, options);
-
-  let addBOM = { addBOM: false };
-  if (_.get(options, 'bom', false)) addBOM = { addBOM: true };
-
-  const encoding = _.get(options, 'encoding', 'utf8');
+export interface TextSpec {
+  encoding: string;
+  eol: string;
+  bom: boolean;
+}
 
-  return new Promise((resolve, reject) => {
-    const dirPath = path.dirname(filePath);
-    fs.mkdir(dirPath, { recursive: true }, (errMkDir) => {
-      if (errMkDir) return reject(errMkDir);
+/**
+ * @typedef {object} WriteAsTextOptions
+ * @readonly
+ * @property {TrimAllLinesOption} [trim] - See {@link PrewriteAsTextOptions}
+ * @property {string} [eol] - See {@link PrewriteAsTextOptions}
+ * @property {boolean} [unicodeLineBreaks] - See {@link PrewriteAsTextOptions}
+ * @property {boolean} [bom] - See {@link PrewriteAsTextOptions}
+ * @property {string} [encoding] - See {@link PrewriteAsTextOptions}
+ * @property {boolean} [dryRun=false] - If true, does not write and returns {@link TextWriteReport}
+ * @property {boolean} [diff=false] - If true, the report includes a unified diff of the decoded text
+ * @property {string} [srcPath] - The source file of the data. With dryRun, the report compares with it instead of the existing destination
+ * @property {boolean} [atomic=false] - If true, writes to a temporary file on the same directory and renames it over the destination
+ * @property {string} [backup] - A suffix to back up the existing destination. e.g. '.bak'
+ * @property {TextSpec} [preserveFrom] - Fills unspecified encoding, eol and bom with the spec. See {@link API.readTextWithSpec}
+ */
+export type WriteAsTextOptions = PrewriteAsTextOptions & {
+  dryRun?: boolean;
+  diff?: boolean;
+  srcPath?: string;
+  atomic?: boolean;
+  backup?: string;
+  preserveFrom?: TextSpec;
+};
 
-      return fs.writeFile(
-        filePath,
-        iconv.encode(writtenData, encoding, addBOM),
-        (err) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve();
-          }
-        },
-      );
-    });
+/**
+ * @private
+ * @param {WriteAsTextOptions} options - Optional parameters
+ * @returns {WriteAsTextOptions} - The options filled with the preserveFrom spec
+ */
+function _applyPreserveFrom(options: WriteAsTextOptions): WriteAsTextOptions {
+  const spec = _.get(options, 'preserveFrom', undefined);
+  if (!spec) return options;
+
+  return _.defaults(_.omit(options, 'preserveFrom'), {
+    encoding: spec.encoding,
+    eol: spec.eol || undefined,
+    bom: spec.bom,
   });
 }
 
 /**
- * The synchronous version of this API: writeAsText().
- *
- * @memberof API
- * @param {string} destPath - A destination file-path
- * @param {string} [strData=''] - A string of data to write
- * @param {object} options - See {@link API.writeAsText}
- * @returns {void}
- * @example
-const { writeAsTextSync } = require('@tuckn/fs-hospitality');
-const vbsFile = 'D:\\Test\\utf8bom.vbs';
-const strData = 'Dim str As String  \n  str = "foo"\n  WScript.Echo str';
-const options = {
-  trim: 'all',
-  eol: 'crlf',
-  bom: true,
-  encoding: 'UTF-8',
-};
+ * @typedef {object} TextWriteReport
+ * @property {string} destPath - A destination file-path
+ * @property {string} srcPath - The source file-path. The destination unless the srcPath option is specified
+ * @property {boolean} exists - Whether the destination exists
+ * @property {boolean} changed - Whether the bytes of the destination would change
+ * @property {string} srcEncoding - The encoding of the source. Empty if not exists
+ * @property {string} destEncoding - The encoding to write
+ * @property {boolean} srcBom - Whether the source has BOM
+ * @property {boolean} destBom - Whether the written data has BOM
+ * @property {EolCounts} srcEols - EOLs of the source
+ * @property {EolCounts} destEols - EOLs of the written data
+ * @property {number} trimmedLines - The number of lines changed by trimming
+ * @property {string} diff - A unified diff. Empty unless the diff option is true
+ */
+export interface TextWriteReport {
+  destPath: string;
+  srcPath: string;
+  exists: boolean;
+  changed: boolean;
+  srcEncoding: string;
+  destEncoding: string;
+  srcBom: boolean;
+  destBom: boolean;
+  srcEols: EolCounts;
+  destEols: EolCounts;
+  trimmedLines: number;
+  diff: string;
+}
 
-writeAsTextSync(vbsFile, strData, options);
-console.log('Writing successful');
+/**
+ * @private
+ * @param {Buffer} buf - A Buffer
+ * @returns {boolean} - Whether the head is UTF-8, UTF-16 or UTF-32 BOM
  */
-export function writeAsTextSync(
-  destPath: string,
+function _hasBom(buf: Buffer): boolean {
+  return _detectBom(buf) !== '';
+}
+
+/**
+ * @private
+ * @param {string} [strData='']
+ * @param {PrewriteAsTextOptions} [options] - Optional parameters
+ * @returns {object} - The formatted text and the encoded Buffer
+ */
+function _encodeAsText(
   strData = '',
   options: PrewriteAsTextOptions = {},
-): void {
-  if (!destPath) {
-    throw new Error(`${ARG_ERR}destPath is empty.${_errLoc(Function)}`);
-  }
-
-  const filePath = path.resolve(destPath);
+): { writtenData: string; encodedData: Buffer } {
   const writtenData = _prewriteAsText(strData, options);
 
   let addBOM = { addBOM: false };
@@ -538,193 +1194,3268 @@ export function writeAsTextSync(
 
   const encoding = _.get(options, 'encoding', 'utf8');
 
-  const dirPath = path.dirname(filePath);
-  if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+  return {
+    writtenData,
+    encodedData: iconv.encode(writtenData, encoding, addBOM),
+  };
+}
 
-  return fs.writeFileSync(
-    filePath,
-    iconv.encode(writtenData, encoding, addBOM),
-  );
+/**
+ * @private
+ * @param {string} filePath - A file-path
+ * @returns {Buffer|null} - The data. null if not exists
+ */
+function _readFileOrNullSync(filePath: string): Buffer | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
 }
 
 /**
- *  Creates a new link (also known as Symbolic Link) to an existing file. Similar to {@link https://nodejs.org/api/fs.html#fs_fs_linksync_existingpath_newpath|Node.js-Path}. But on Windows, use mklink of command in Command-Prompt. so requires admin rights.
+ * The asynchronous version of _readFileOrNullSync().
  *
- * @memberof API
- * @param {string} existingPath - A source file or direcotry
- * @param {string} newPath - A destination path
- * @returns {Promise<string>} - Returns mklink stdout
- * @example
-const { mklink } = require('@tuckn/fs-hospitality');
-
-// on Windows, use mklink of command in Command-Prompt and requires admin rights
-mklink('D:\\MySrc\\TestDir', 'C:\\Test').then((stdout) => {
-  console.log(stdout);
-  // Created the symbolic link on "C:\"
-});
+ * @private
+ * @param {string} filePath - A file-path
+ * @returns {Promise<Buffer|null>} - The data. null if not exists
  */
-export async function mklink(
-  existingPath: string,
-  newPath: string,
-): Promise<void | string> {
-  if (os.platform() !== 'win32') {
-    return new Promise((resolve, reject) => {
-      fs.link(existingPath, newPath, (err) => {
-        if (err) return reject(err);
-        return resolve();
-      });
-    });
-  }
-
-  if (!existingPath) {
-    throw new Error(`${ARG_ERR}existingPath is empty.${_errLoc(Function)}`);
-  }
-
-  if (!newPath) {
-    throw new Error(`${ARG_ERR}newPath is empty.${_errLoc(Function)}`);
-  }
-
-  const mainCmd = 'mklink';
-  let argsStr = '';
-
+function _readFileOrNull(filePath: string): Promise<Buffer | null> {
   return new Promise((resolve, reject) => {
-    fs.stat(existingPath, (fsErr, statSrc) => {
-      if (fsErr) return reject(fsErr);
-
-      if (statSrc.isFile()) {
-        argsStr = `"${newPath}" "${existingPath}"`;
-      } else if (statSrc.isDirectory()) {
-        argsStr = `/D "${newPath}" "${existingPath}"`;
-      } else {
-        return reject(
-          new Error(
-            `${ARG_ERR}${newPath} is not the file or directory.${_errLoc(
-              Function,
-            )}`,
-          ),
-        );
-      }
-
-      return exec(
-        `${mainCmd} ${argsStr}`,
-        { encoding: 'buffer' },
-        (err, stdout, stderr) => {
-          if (err) return reject(decodeTextBuffer(stderr));
-          return resolve(decodeTextBuffer(stdout));
-        },
-      );
+    fs.readFile(filePath, (err, buf) => {
+      if (err && err.code === 'ENOENT') return resolve(null);
+      if (err) return reject(err);
+      return resolve(buf);
     });
   });
 }
 
 /**
- * The synchronous version of this API: mklink().
- *
- * @memberof API
- * @param {string} existingPath - A source file or direcotry
- * @param {string} newPath - A destination path
- * @returns {string} - Returns mklink stdout
- * @example
-const { mklinkSync } = require('@tuckn/fs-hospitality');
-
-// on Windows, use mklink of command in Command-Prompt and requires admin rights
-const stdout = mklinkSync('D:\\MySrc\\TestDir', 'C:\\Test');
-// Created the symbolic link on "C:\"
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @param {Buffer|null} destBuf - The existing destination. null if not exists
+ * @param {string} srcPath - A source file-path. The same as filePath if no source
+ * @param {Buffer|null} srcBuf - The source. null if not exists
+ * @param {string} strData - A string of data to write
+ * @param {WriteAsTextOptions} options - Optional parameters
+ * @returns {TextWriteReport} -
  */
-export function mklinkSync(
-  existingPath: string,
-  newPath: string,
-): void | string {
-  if (os.platform() !== 'win32') {
-    return fs.linkSync(existingPath, newPath);
+function _reportWriteAsText(
+  filePath: string,
+  destBuf: Buffer | null,
+  srcPath: string,
+  srcBuf: Buffer | null,
+  strData: string,
+  options: WriteAsTextOptions,
+): TextWriteReport {
+  const { writtenData, encodedData } = _encodeAsText(strData, options);
+
+  let srcText = '';
+  let srcEncoding = '';
+  if (srcBuf) {
+    srcEncoding = detectTextEncoding(srcBuf);
+    srcText = decodeTextBuffer(srcBuf, srcEncoding);
   }
 
-  if (!existingPath) {
-    throw new Error(`${ARG_ERR}existingPath is empty.${_errLoc(Function)}`);
+  let trimmedLines = 0;
+  const trimOpt = _.get(options, 'trim', undefined);
+  if (trimOpt) {
+    const trimmed = trimAllLines(strData, trimOpt).split(/\r\n|\r|\n/);
+    strData.split(/\r\n|\r|\n/).forEach((line, i) => {
+      if (line !== trimmed[i]) trimmedLines += 1;
+    });
   }
 
-  if (!newPath) {
-    throw new Error(`${ARG_ERR}newPath is empty.${_errLoc(Function)}`);
+  let diff = '';
+  if (_.get(options, 'diff', false)) {
+    diff = createTwoFilesPatch(
+      srcPath,
+      filePath,
+      srcText,
+      writtenData,
+      srcEncoding,
+      _.get(options, 'encoding', 'utf8'),
+    );
   }
 
-  const mainCmd = 'mklink';
-  let argsStr = '';
+  return {
+    destPath: filePath,
+    srcPath,
+    exists: destBuf !== null,
+    changed: destBuf === null || !destBuf.equals(encodedData),
+    srcEncoding,
+    destEncoding: _.get(options, 'encoding', 'utf8'),
+    srcBom: srcBuf !== null && _hasBom(srcBuf),
+    destBom: _hasBom(encodedData),
+    srcEols: _countEols(srcText),
+    destEols: _countEols(writtenData),
+    trimmedLines,
+    diff,
+  };
+}
 
-  const statSrc = fs.statSync(existingPath);
-  if (statSrc.isFile()) {
-    argsStr = `"${newPath}" "${existingPath}"`;
-  } else if (statSrc.isDirectory()) {
-    argsStr = `/D "${newPath}" "${existingPath}"`;
-  } else {
-    throw new Error(
-      `${ARG_ERR}${newPath} is not the file or direcotry.${_errLoc(Function)}`,
-    );
-  }
+/**
+ * @private
+ * @param {fs.Stats} stats - The stats of the existing file
+ * @returns {number} - The permission bits
+ */
+function _permissionBits(stats: fs.Stats): number {
+  // eslint-disable-next-line no-bitwise
+  return stats.mode & 0o7777;
+}
+
+/**
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @returns {string} - A temporary path on the same directory
+ */
+function _makeSiblingTmpPath(filePath: string): string {
+  return makeTmpPath(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.`,
+    '.tmp',
+  );
+}
 
-  return decodeTextBuffer(execSync(`${mainCmd} ${argsStr}`));
+/**
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @returns {string} - The real path. Or filePath itself if not existing
+ */
+function _realPathOrSelfSync(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch (e) {
+    if (_.get(e, 'code') === 'ENOENT') return filePath;
+    throw e;
+  }
 }
 
 /**
- * fs.readdir Promisification. {@link https://nodejs.org/api/fs.html#fs_fs_readdir_path_options_callback|Node.js fs.readdir}
+ * The asynchronous version of _realPathOrSelfSync().
  *
- * @memberof API
- * @param {string} dirPath - A directory path
- * @param {object} [options] - See {@link https://nodejs.org/api/fs.html#fs_fs_readdir_path_options_callback|Node.js fs.readdir}
- * @returns {Promise<string[]|Buffer[]|fs.Dirent[]>} - Returns array of fs.Dirent
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @returns {Promise<string>} - The real path. Or filePath itself if not existing
  */
-export function readdirPromise(
-  dirPath: string,
-  options = {},
-): Promise<string[] | Buffer[] | fs.Dirent[]> {
+function _realPathOrSelf(filePath: string): Promise<string> {
   return new Promise((resolve, reject) => {
-    fs.readdir(dirPath, options, (err, files) => {
+    fs.realpath(filePath, (err, realPath) => {
+      if (err && err.code === 'ENOENT') return resolve(filePath);
       if (err) return reject(err);
-      return resolve(files);
+      return resolve(realPath);
     });
   });
 }
 
+/** @private */
+const DIR_FSYNC_UNSUPPORTED_CODES = ['EINVAL', 'ENOTSUP', 'EISDIR', 'EPERM'];
+
 /**
- * @typedef {object} FileInfo
- * @property {string} name -
- * @property {string} path -
- * @property {boolean} isDirectory -
- * @property {boolean} isFile -
- * @property {boolean} isSymbolicLink -
+ * Fsync the directory to persist a rename in it. Does nothing on Windows, which can not open a directory.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @returns {void}
  */
-export interface FileInfo {
-  name: string;
-  relPath: string;
-  path: string;
-  isDirectory: boolean;
-  isFile: boolean;
-  isSymbolicLink: boolean;
+function _fsyncDirSync(dirPath: string): void {
+  if (os.platform() === 'win32') return;
+
+  const fd = fs.openSync(dirPath, 'r');
+  try {
+    fs.fsyncSync(fd);
+  } catch (e) {
+    // @note Some file systems do not support fsync of a directory
+    if (!DIR_FSYNC_UNSUPPORTED_CODES.includes(_.get(e, 'code'))) throw e;
+  } finally {
+    fs.closeSync(fd);
+  }
 }
 
 /**
- * Sort-Function for FileInfo objects of Array. Sorts with name and file-type.
+ * The asynchronous version of _fsyncDirSync().
  *
  * @private
- * @param {FileInfo} a -
+ * @param {string} dirPath - A directory path
+ * @returns {Promise<void>}
+ */
+function _fsyncDir(dirPath: string): Promise<void> {
+  if (os.platform() === 'win32') return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    fs.open(dirPath, 'r', (errOpen, fd) => {
+      if (errOpen) return reject(errOpen);
+
+      return fs.fsync(fd, (errSync) => {
+        fs.close(fd, (errClose) => {
+          const isUnsupported =
+            errSync && DIR_FSYNC_UNSUPPORTED_CODES.includes(errSync.code || '');
+          const errAny = (isUnsupported ? null : errSync) || errClose;
+          if (errAny) return reject(errAny);
+          return resolve();
+        });
+      });
+    });
+  });
+}
+
+/**
+ * Write to a sibling temporary file, fsync it and rename over the destination, and fsync the directory. The original file mode is preserved. A symbolic link destination is resolved, so the link is kept and its target is replaced.
+ *
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @param {Buffer} data - A data to write
+ * @returns {void}
+ */
+function _writeFileAtomicSync(filePath: string, data: Buffer): void {
+  const realPath = _realPathOrSelfSync(filePath);
+  const tmpPath = _makeSiblingTmpPath(realPath);
+  const mode = fs.existsSync(realPath)
+    ? _permissionBits(fs.statSync(realPath))
+    : undefined;
+
+  try {
+    const fd = fs.openSync(tmpPath, 'w', mode);
+    try {
+      fs.writeFileSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // @note The mode of open() is masked by umask
+    if (mode !== undefined) fs.chmodSync(tmpPath, mode);
+    fs.renameSync(tmpPath, realPath);
+  } catch (e) {
+    if (fs.existsSync(tmpPath)) fs.unlinkSync(tmpPath);
+    throw e;
+  }
+
+  _fsyncDirSync(path.dirname(realPath));
+}
+
+/**
+ * The asynchronous version of _writeFileAtomicSync().
+ *
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @param {Buffer} data - A data to write
+ * @returns {Promise<void>}
+ */
+function _writeFileAtomic(filePath: string, data: Buffer): Promise<void> {
+  const getMode = (realPath: string) =>
+    new Promise<number | undefined>((resolve) => {
+      fs.stat(realPath, (err, stats) => {
+        resolve(err ? undefined : _permissionBits(stats));
+      });
+    });
+
+  const writeAndRename = (realPath: string, mode?: number) =>
+    new Promise<void>((resolve, reject) => {
+      const tmpPath = _makeSiblingTmpPath(realPath);
+      const cleanUp = (err: Error) => {
+        fs.unlink(tmpPath, () => reject(err));
+      };
+
+      fs.open(tmpPath, 'w', mode, (errOpen, fd) => {
+        if (errOpen) return reject(errOpen);
+
+        const closeThen = (next: () => void) => (err: Error | null) => {
+          fs.close(fd, (errClose) => {
+            const errAny = err || errClose;
+            if (errAny) return cleanUp(errAny);
+            return next();
+          });
+        };
+
+        const rename = () => {
+          fs.rename(tmpPath, realPath, (errRename) => {
+            if (errRename) return cleanUp(errRename);
+            return resolve();
+          });
+        };
+
+        const chmodAndRename = () => {
+          if (mode === undefined) return rename();
+          return fs.chmod(tmpPath, mode, (errChmod) => {
+            if (errChmod) return cleanUp(errChmod);
+            return rename();
+          });
+        };
+
+        return fs.writeFile(fd, data, (errWrite) => {
+          if (errWrite) return closeThen(chmodAndRename)(errWrite);
+          return fs.fsync(fd, closeThen(chmodAndRename));
+        });
+      });
+    });
+
+  return _realPathOrSelf(filePath).then(async (realPath) => {
+    const mode = await getMode(realPath);
+    await writeAndRename(realPath, mode);
+    await _fsyncDir(path.dirname(realPath));
+  });
+}
+
+/**
+ * Backs up the existing file with the suffix. Links (or copies, if linking is not supported) the file to a temporary path and renames it to the backup path, so the backup is never half-written.
+ *
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @param {string} [suffix] - A suffix of the backup file
+ * @param {boolean} [useLink=false] - Whether to hard-link. Only for the atomic writing, which does not change the original file
+ * @returns {Promise<void>}
+ */
+function _backupFile(
+  filePath: string,
+  suffix = '',
+  useLink = false,
+): Promise<void> {
+  if (!suffix) return Promise.resolve();
+
+  const backupPath = filePath + suffix;
+  const tmpPath = _makeSiblingTmpPath(backupPath);
+
+  const copy = (srcPath: string) =>
+    new Promise<void>((resolve, reject) => {
+      fs.copyFile(srcPath, tmpPath, (err) => {
+        if (err) return reject(err);
+        return resolve();
+      });
+    });
+
+  const link = (srcPath: string) =>
+    new Promise<void>((resolve, reject) => {
+      fs.link(srcPath, tmpPath, (err) => {
+        if (err) return reject(err);
+        return resolve();
+      });
+    });
+
+  const linkOrCopy = (srcPath: string) => {
+    if (!useLink) return copy(srcPath);
+
+    // @note Falls back to copying on file systems not supporting hard links
+    return link(srcPath).catch((err) => {
+      if (err.code === 'ENOENT') throw err;
+      return copy(srcPath);
+    });
+  };
+
+  const rename = () =>
+    new Promise<void>((resolve, reject) => {
+      fs.rename(tmpPath, backupPath, (err) => {
+        if (err) return fs.unlink(tmpPath, () => reject(err));
+        return resolve();
+      });
+    });
+
+  return _realPathOrSelf(filePath)
+    .then(linkOrCopy)
+    .then(rename)
+    .catch((err) => {
+      if (err.code !== 'ENOENT') throw err;
+    });
+}
+
+/**
+ * The synchronous version of _backupFile().
+ *
+ * @private
+ * @param {string} filePath - A destination file-path
+ * @param {string} [suffix] - A suffix of the backup file
+ * @param {boolean} [useLink=false] - Whether to hard-link
+ * @returns {void}
+ */
+function _backupFileSync(filePath: string, suffix = '', useLink = false): void {
+  if (!suffix || !fs.existsSync(filePath)) return;
+
+  const realPath = _realPathOrSelfSync(filePath);
+  const backupPath = filePath + suffix;
+  const tmpPath = _makeSiblingTmpPath(backupPath);
+
+  try {
+    if (useLink) {
+      try {
+        fs.linkSync(realPath, tmpPath);
+      } catch (e) {
+        fs.copyFileSync(realPath, tmpPath);
+      }
+    } else {
+      fs.copyFileSync(realPath, tmpPath);
+    }
+
+    fs.renameSync(tmpPath, backupPath);
+  } catch (e) {
+    if (fs.existsSync(tmpPath)) fs.unlinkSync(tmpPath);
+    throw e;
+  }
+}
+
+// @note Overloads to type the returned value with the dryRun option
+export function writeAsText(
+  destPath: string,
+  strData: string | undefined,
+  options: WriteAsTextOptions & { dryRun: true },
+): Promise<TextWriteReport>;
+export function writeAsText(
+  destPath: string,
+  strData?: string,
+  options?: WriteAsTextOptions & { dryRun?: false },
+): Promise<void>;
+export function writeAsText(
+  destPath: string,
+  strData?: string,
+  options?: WriteAsTextOptions,
+): Promise<void | TextWriteReport>;
+
+/**
+ * Write a String to the file as text. Also can specify an encoding, an EOL, BOM and trimming every line. With the dryRun option, does not write and reports what would change.
+ *
+ * @memberof API
+ * @param {string} destPath - A destination file-path
+ * @param {string} [strData=''] - A string of data to write
+ * @param {WriteAsTextOptions} [options] - Optional parameters
+ * @returns {Promise<void|TextWriteReport>} - { resolve:undefined, reject: Error }. Resolves TextWriteReport with the dryRun option
+ * @example
+const { writeAsText } = require('@tuckn/fs-hospitality');
+const vbsFile = 'D:\\Test\\utf8bom.vbs';
+const strData = 'Dim str As String  \n  str = "foo"\n  WScript.Echo str';
+const options = {
+  trim: 'all',
+  eol: 'crlf',
+  bom: true,
+  encoding: 'UTF-8',
+};
+
+writeAsText(vbsFile, strData, options).then(() => {
+  console.log('Writing successful');
+});
+
+// Crash-safe writing with backing up to 'D:\\Test\\utf8bom.vbs.bak'
+writeAsText(vbsFile, strData, { ...options, atomic: true, backup: '.bak' });
+
+// Dry-run
+writeAsText(vbsFile, strData, { ...options, dryRun: true, diff: true }).then(
+  (report) => {
+    console.log(report);
+    // Returns: {
+    //   destPath: 'D:\\Test\\utf8bom.vbs',
+    //   srcPath: 'D:\\Test\\utf8bom.vbs',
+    //   exists: true,
+    //   changed: true,
+    //   srcEncoding: 'SJIS',
+    //   destEncoding: 'UTF-8',
+    //   srcBom: false,
+    //   destBom: true,
+    //   srcEols: { crlf: 0, lf: 2, cr: 0 },
+    //   destEols: { crlf: 2, lf: 0, cr: 0 },
+    //   trimmedLines: 3,
+    //   diff: 'Index: D:\\Test\\utf8bom.vbs\n===...'
+    // }
+  },
+);
+ */
+export function writeAsText(
+  destPath: string,
+  strData = '',
+  options: WriteAsTextOptions = {},
+): Promise<void | TextWriteReport> {
+  if (!destPath) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}destPath is empty.${_errLoc(Function)}`),
+    );
+  }
+
+  const filePath = path.resolve(destPath);
+  const writeOpts = _applyPreserveFrom(options);
+
+  if (_.get(writeOpts, 'dryRun', false)) {
+    const srcPath = path.resolve(_.get(writeOpts, 'srcPath', filePath));
+
+    const report = ([destBuf, srcBuf]: (Buffer | null)[]) => {
+      const srcData = srcPath === filePath ? destBuf : srcBuf;
+      return _reportWriteAsText(
+        filePath,
+        destBuf,
+        srcPath,
+        srcData,
+        strData,
+        writeOpts,
+      );
+    };
+
+    return Promise.all([
+      _readFileOrNull(filePath),
+      srcPath === filePath ? null : _readFileOrNull(srcPath),
+    ]).then(report);
+  }
+
+  const { encodedData } = _encodeAsText(strData, writeOpts);
+  const atomic = _.get(writeOpts, 'atomic', false);
+  const backup = _.get(writeOpts, 'backup', '');
+
+  return new Promise<void>((resolve, reject) => {
+    const dirPath = path.dirname(filePath);
+    fs.mkdir(dirPath, { recursive: true }, (errMkDir) => {
+      if (errMkDir) return reject(errMkDir);
+      return resolve();
+    });
+  })
+    .then(() => _backupFile(filePath, backup, atomic))
+    .then(() => {
+      if (atomic) return _writeFileAtomic(filePath, encodedData);
+
+      return new Promise((resolve, reject) => {
+        fs.writeFile(filePath, encodedData, (err) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve();
+          }
+        });
+      });
+    });
+}
+
+// @note Overloads to type the returned value with the dryRun option
+export function writeAsTextSync(
+  destPath: string,
+  strData: string | undefined,
+  options: WriteAsTextOptions & { dryRun: true },
+): TextWriteReport;
+export function writeAsTextSync(
+  destPath: string,
+  strData?: string,
+  options?: WriteAsTextOptions & { dryRun?: false },
+): void;
+export function writeAsTextSync(
+  destPath: string,
+  strData?: string,
+  options?: WriteAsTextOptions,
+): void | TextWriteReport;
+
+/**
+ * The synchronous version of this API: writeAsText().
+ *
+ * @memberof API
+ * @param {string} destPath - A destination file-path
+ * @param {string} [strData=''] - A string of data to write
+ * @param {object} options - See {@link API.writeAsText}
+ * @returns {void|TextWriteReport} - Returns TextWriteReport with the dryRun option
+ * @example
+const { writeAsTextSync } = require('@tuckn/fs-hospitality');
+const vbsFile = 'D:\\Test\\utf8bom.vbs';
+const strData = 'Dim str As String  \n  str = "foo"\n  WScript.Echo str';
+const options = {
+  trim: 'all',
+  eol: 'crlf',
+  bom: true,
+  encoding: 'UTF-8',
+};
+
+writeAsTextSync(vbsFile, strData, options);
+console.log('Writing successful');
+ */
+export function writeAsTextSync(
+  destPath: string,
+  strData = '',
+  options: WriteAsTextOptions = {},
+): void | TextWriteReport {
+  if (!destPath) {
+    throw new Error(`${ARG_ERR}destPath is empty.${_errLoc(Function)}`);
+  }
+
+  const filePath = path.resolve(destPath);
+  const writeOpts = _applyPreserveFrom(options);
+
+  if (_.get(writeOpts, 'dryRun', false)) {
+    const srcPath = path.resolve(_.get(writeOpts, 'srcPath', filePath));
+    const destBuf = _readFileOrNullSync(filePath);
+    const srcBuf =
+      srcPath === filePath ? destBuf : _readFileOrNullSync(srcPath);
+
+    return _reportWriteAsText(
+      filePath,
+      destBuf,
+      srcPath,
+      srcBuf,
+      strData,
+      writeOpts,
+    );
+  }
+
+  const { encodedData } = _encodeAsText(strData, writeOpts);
+
+  const dirPath = path.dirname(filePath);
+  if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+
+  const atomic = _.get(writeOpts, 'atomic', false);
+  _backupFileSync(filePath, _.get(writeOpts, 'backup', ''), atomic);
+
+  if (atomic) {
+    return _writeFileAtomicSync(filePath, encodedData);
+  }
+
+  return fs.writeFileSync(filePath, encodedData);
+}
+
+/**
+ * @typedef {object} TextWithSpec
+ * @property {string} text - The decoded text
+ * @property {string} encoding - The detected encoding
+ * @property {string} eol - "crlf" | "cr" | "lf" | "". Empty if no EOL or mixed EOLs, not to convert them
+ * @property {boolean} bom - Whether the file has BOM
+ */
+export interface TextWithSpec extends TextSpec {
+  text: string;
+}
+
+/**
+ * @private
+ * @param {Buffer} buf - A Buffer
+ * @returns {boolean} - Whether all bytes are ASCII characters except NUL
+ */
+function _isAsciiBuffer(buf: Buffer): boolean {
+  return buf.every((byte) => byte > 0x00 && byte < 0x80);
+}
+
+/**
+ * @private
+ * @param {Buffer} buf - A Buffer of the text file
+ * @returns {TextWithSpec} -
+ */
+function _bufToTextWithSpec(buf: Buffer): TextWithSpec {
+  // @note ASCII is guessed as a single-byte encoding like ISO-8859-9. Preserves it as UTF-8, the superset of ASCII, not to lose the added characters
+  const encoding =
+    buf.length > 0 && !_isAsciiBuffer(buf) ? detectTextEncoding(buf) : 'utf8';
+  const text = iconv.decode(buf, encoding);
+  const eolDetection = _detectEolDetailed(text);
+
+  return {
+    text,
+    encoding,
+    eol: eolDetection.mixed ? '' : eolDetection.dominant,
+    bom: _hasBom(buf),
+  };
+}
+
+/**
+ * Reads the text file and returns the text with its spec (encoding, EOL and BOM). Passing the spec to the preserveFrom option of {@link API.writeAsText} writes back in the same spec.
+ *
+ * @memberof API
+ * @param {string} filePath - A file-path
+ * @returns {Promise<TextWithSpec>} -
+ * @example
+const { readTextWithSpec } = require('@tuckn/fs-hospitality');
+
+readTextWithSpec('D:\\Test\\SjisCRLF.vbs').then((spec) => {
+  console.log(spec);
+  // Returns: {
+  //   text: 'Dim str As String\r\nstr = "テスト"\r\n',
+  //   encoding: 'SJIS',
+  //   eol: 'crlf',
+  //   bom: false
+  // }
+});
+ */
+export function readTextWithSpec(filePath: string): Promise<TextWithSpec> {
+  if (!filePath) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}filePath is empty.${_errLoc(Function)}`),
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    fs.readFile(filePath, (err, buf) => {
+      if (err) return reject(err);
+
+      try {
+        return resolve(_bufToTextWithSpec(buf));
+      } catch (e) {
+        return reject(e);
+      }
+    });
+  });
+}
+
+/**
+ * The synchronous version of this API: readTextWithSpec().
+ *
+ * @memberof API
+ * @param {string} filePath - A file-path
+ * @returns {TextWithSpec} -
+ * @example
+const { readTextWithSpecSync } = require('@tuckn/fs-hospitality');
+
+const spec = readTextWithSpecSync('D:\\Test\\SjisCRLF.vbs');
+// Returns: {
+//   text: 'Dim str As String\r\nstr = "テスト"\r\n',
+//   encoding: 'SJIS',
+//   eol: 'crlf',
+//   bom: false
+// }
+ */
+export function readTextWithSpecSync(filePath: string): TextWithSpec {
+  if (!filePath) {
+    throw new Error(`${ARG_ERR}filePath is empty.${_errLoc(Function)}`);
+  }
+
+  return _bufToTextWithSpec(fs.readFileSync(filePath));
+}
+
+/**
+ * @typedef {Function} EditTextFunction
+ * @param {string} text - The decoded text
+ * @param {TextSpec} spec - The spec of the file
+ * @returns {string|Promise<string>} - The edited text
+ */
+export type EditTextFunction = (
+  text: string,
+  spec: TextSpec,
+) => string | Promise<string>;
+
+/**
+ * Reads the text file, edits the text with the function and writes it back in the original spec (encoding, EOL and BOM).
+ *
+ * @memberof API
+ * @param {string} filePath - A file-path
+ * @param {EditTextFunction} editFn - A function to return the edited text
+ * @param {WriteAsTextOptions} [options] - Optional parameters. Overrides the original spec
+ * @returns {Promise<void>} - { resolve:undefined, reject: Error }
+ * @example
+const { editTextFile } = require('@tuckn/fs-hospitality');
+
+// Keeps Shift_JIS and CRLF
+editTextFile('D:\\Test\\SjisCRLF.ini', (text) => text.replace('foo=1', 'foo=2'), {
+  atomic: true,
+}).then(() => {
+  console.log('Editing successful');
+});
+ */
+export function editTextFile(
+  filePath: string,
+  editFn: EditTextFunction,
+  options: WriteAsTextOptions = {},
+): Promise<void> {
+  if (!_.isFunction(editFn)) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}editFn is not a function.${_errLoc(Function)}`),
+    );
+  }
+
+  return readTextWithSpec(filePath).then(async (spec) => {
+    const { text, ...textSpec } = spec;
+    const editedText = await editFn(text, textSpec);
+
+    await writeAsText(filePath, editedText, {
+      ..._.omit(options, 'dryRun'),
+      preserveFrom: textSpec,
+    });
+  });
+}
+
+/**
+ * The synchronous version of this API: editTextFile().
+ *
+ * @memberof API
+ * @param {string} filePath - A file-path
+ * @param {Function} editFn - A function to return the edited text. Not accepts a Promise
+ * @param {WriteAsTextOptions} [options] - See {@link API.editTextFile}
+ * @returns {void}
+ * @example
+const { editTextFileSync } = require('@tuckn/fs-hospitality');
+
+editTextFileSync('D:\\Test\\SjisCRLF.ini', (text) => text.replace('foo=1', 'foo=2'));
+ */
+export function editTextFileSync(
+  filePath: string,
+  editFn: (text: string, spec: TextSpec) => string,
+  options: WriteAsTextOptions = {},
+): void {
+  if (!_.isFunction(editFn)) {
+    throw new Error(`${ARG_ERR}editFn is not a function.${_errLoc(Function)}`);
+  }
+
+  const { text, ...textSpec } = readTextWithSpecSync(filePath);
+  const editedText = editFn(text, textSpec);
+
+  writeAsTextSync(filePath, editedText, {
+    ..._.omit(options, 'dryRun'),
+    preserveFrom: textSpec,
+  });
+}
+
+/**
+ * @typedef {object} TmpPathOptions
+ * @readonly
+ * @property {string} [baseDir] - The default is os.tmpdir
+ * @property {string} [prefix] - A prefix of the name
+ * @property {string} [postfix] - A postfix of the name. e.g. '.txt'
+ * @property {boolean} [keep=false] - If true, does not remove the path on the process exit
+ */
+export type TmpPathOptions = {
+  baseDir?: string;
+  prefix?: string;
+  postfix?: string;
+  keep?: boolean;
+};
+
+/**
+ * Every key of TmpPathOptions. Typed not to be compiled when a key is added to the type only.
+ *
+ * @private
+ */
+const TMP_PATH_OPTIONS: { [key in keyof TmpPathOptions]-?: true } = {
+  baseDir: true,
+  prefix: true,
+  postfix: true,
+  keep: true,
+};
+
+/** @private */
+const TMP_PATH_OPTION_KEYS = Object.keys(TMP_PATH_OPTIONS);
+
+/**
+ * @typedef {object} WriteTmpFileOptions
+ * @readonly
+ * @property {string} [trim] - See {@link API.writeAsText}
+ * @property {string} [eol] - See {@link API.writeAsText}
+ * @property {boolean} [unicodeLineBreaks] - See {@link API.writeAsText}
+ * @property {boolean} [bom] - See {@link API.writeAsText}
+ * @property {string} [encoding] - See {@link API.writeAsText}
+ * @property {string} [baseDir] - See {@link TmpPathOptions}
+ * @property {string} [prefix] - See {@link TmpPathOptions}
+ * @property {string} [postfix] - See {@link TmpPathOptions}
+ * @property {boolean} [keep=false] - See {@link TmpPathOptions}
+ */
+export type WriteTmpFileOptions = PrewriteAsTextOptions & TmpPathOptions;
+
+/**
+ * @typedef {Function} TmpPathFunction
+ * @param {string} tmpPath - A temporary path. Removed after the function is finished
+ * @returns {*|Promise<*>} - Any value to resolve
+ */
+export type TmpPathFunction<T> = (tmpPath: string) => T | Promise<T>;
+
+/**
+ * @typedef {object} WriteTmpFileSyncOptions
+ * @readonly
+ * @property {string} [encoding] - See {@link https://nodejs.org/api/fs.html#fs_fs_writefilesync_file_data_options|Node.js fs.writeFileSync}
+ * @property {number} [mode] - See Node.js fs.writeFileSync
+ * @property {string} [flag] - See Node.js fs.writeFileSync
+ * @property {string} [baseDir] - See {@link TmpPathOptions}
+ * @property {string} [prefix] - See {@link TmpPathOptions}
+ * @property {string} [postfix] - See {@link TmpPathOptions}
+ * @property {boolean} [keep=true] - If false, removes the file on the process exit. See {@link TmpPathOptions}
+ */
+export type WriteTmpFileSyncOptions = TmpPathOptions &
+  Exclude<fs.WriteFileOptions, string | null>;
+
+/**
+ * Temporary paths to remove on the process exit.
+ *
+ * @private
+ */
+const _tmpPaths = new Set<string>();
+
+/**
+ * @private
+ * @returns {void}
+ */
+function _cleanUpTmpPathsOnExit(): void {
+  _tmpPaths.forEach((tmpPath) => {
+    try {
+      fs.rmSync(tmpPath, { recursive: true, force: true });
+    } catch (e) {
+      // @note Can not report errors while the process is exiting
+    }
+  });
+  _tmpPaths.clear();
+}
+
+/**
+ * @private
+ * @param {string} tmpPath - A temporary path
+ * @param {TmpPathOptions} [options] - Optional parameters
+ * @returns {string} - The temporary path
+ */
+function _registerTmpPath(tmpPath: string, options?: TmpPathOptions): string {
+  if (_.get(options, 'keep', false)) return tmpPath;
+
+  if (!process.listeners('exit').includes(_cleanUpTmpPathsOnExit)) {
+    process.on('exit', _cleanUpTmpPathsOnExit);
+  }
+
+  _tmpPaths.add(tmpPath);
+  return tmpPath;
+}
+
+/**
+ * @private
+ * @param {TmpPathOptions} [options] - Optional parameters
+ * @returns {string} - A temporary path
+ */
+function _makeTmpPathWith(options?: TmpPathOptions): string {
+  return makeTmpPath(
+    _.get(options, 'baseDir', ''),
+    _.get(options, 'prefix', ''),
+    _.get(options, 'postfix', ''),
+  );
+}
+
+/**
+ * @private
+ * @param {string} tmpPath - A temporary path
+ * @returns {Promise<void>}
+ */
+function _removeTmpPath(tmpPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.rm(tmpPath, { recursive: true, force: true }, (err) => {
+      if (err) return reject(err);
+
+      _tmpPaths.delete(tmpPath);
+      return resolve();
+    });
+  });
+}
+
+/**
+ * The synchronous version of _removeTmpPath().
+ *
+ * @private
+ * @param {string} tmpPath - A temporary path
+ * @returns {void}
+ */
+function _removeTmpPathSync(tmpPath: string): void {
+  fs.rmSync(tmpPath, { recursive: true, force: true });
+  _tmpPaths.delete(tmpPath);
+}
+
+/**
+ * @private
+ * @param {string} tmpPath - A temporary path
+ * @param {TmpPathFunction} fn - A function to use the path
+ * @returns {Promise<*>} - The value returned by fn
+ */
+async function _useTmpPath<T>(
+  tmpPath: string,
+  fn: TmpPathFunction<T>,
+): Promise<T> {
+  let result: T;
+
+  try {
+    result = await fn(tmpPath);
+  } catch (e) {
+    // @note Leaves the path to the exit cleanup rather than masking e
+    await _removeTmpPath(tmpPath).catch(_.noop);
+    throw e;
+  }
+
+  await _removeTmpPath(tmpPath);
+  return result;
+}
+
+/**
+ * The synchronous version of _useTmpPath().
+ *
+ * @private
+ * @param {string} tmpPath - A temporary path
+ * @param {Function} fn - A function to use the path
+ * @returns {*} - The value returned by fn
+ */
+function _useTmpPathSync<T>(tmpPath: string, fn: (usedPath: string) => T): T {
+  let result: T;
+
+  try {
+    result = fn(tmpPath);
+  } catch (e) {
+    try {
+      _removeTmpPathSync(tmpPath);
+    } catch (errRemove) {
+      // @note Leaves the path to the exit cleanup rather than masking e
+    }
+    throw e;
+  }
+
+  _removeTmpPathSync(tmpPath);
+  return result;
+}
+
+/**
+ * Makes a new temporary directory, and Returns the path. The directory is removed on the process exit unless the keep option is true.
+ *
+ * @memberof API
+ * @param {TmpPathOptions} [options] - Optional parameters
+ * @returns {Promise<string>} - { resolve: A temporary directory path, reject: Error }
+ * @example
+const { mkTmpDir } = require('@tuckn/fs-hospitality');
+
+mkTmpDir({ prefix: 'build_' }).then((tmpDir) => {
+  console.log(tmpDir);
+  // Returns: 'C:\Users\YourName\AppData\Local\Temp\build_7c70ceef-28f6-4ae8-b4ef-5e5d459ef007'
+});
+ */
+export function mkTmpDir(options: TmpPathOptions = {}): Promise<string> {
+  const tmpPath = _makeTmpPathWith(options);
+
+  return new Promise((resolve, reject) => {
+    fs.mkdir(tmpPath, { recursive: true }, (err) => {
+      if (err) return reject(err);
+      return resolve(_registerTmpPath(tmpPath, options));
+    });
+  });
+}
+
+/**
+ * The synchronous version of this API: mkTmpDir().
+ *
+ * @memberof API
+ * @param {TmpPathOptions} [options] - See {@link API.mkTmpDir}
+ * @returns {string} - A temporary directory path
+ * @example
+const { mkTmpDirSync } = require('@tuckn/fs-hospitality');
+
+const tmpDir = mkTmpDirSync({ baseDir: 'R:\\' });
+// Returns: 'R:\\7c70ceef-28f6-4ae8-b4ef-5e5d459ef007'
+ */
+export function mkTmpDirSync(options: TmpPathOptions = {}): string {
+  const tmpPath = _makeTmpPathWith(options);
+
+  fs.mkdirSync(tmpPath, { recursive: true });
+  return _registerTmpPath(tmpPath, options);
+}
+
+/**
+ * Writes the string to a new temporary file as text, and Returns the path. Also can specify an encoding, an EOL, BOM and trimming every line. The file is removed on the process exit unless the keep option is true.
+ *
+ * @memberof API
+ * @param {string} [strData=''] - A string of data to write
+ * @param {WriteTmpFileOptions} [options] - Optional parameters
+ * @returns {Promise<string>} - { resolve: A temporary file path, reject: Error }
+ * @example
+const { writeTmpFile } = require('@tuckn/fs-hospitality');
+const { execFile } = require('child_process');
+
+// Passes a Shift_JIS and CRLF file to a legacy tool
+writeTmpFile('foo=1\nbar=2', {
+  encoding: 'SJIS',
+  eol: 'crlf',
+  postfix: '.ini',
+}).then((tmpPath) => {
+  execFile('legacy-tool.exe', ['/config', tmpPath]);
+});
+ */
+export function writeTmpFile(
+  strData = '',
+  options: WriteTmpFileOptions = {},
+): Promise<string> {
+  const tmpPath = _makeTmpPathWith(options);
+  const writeOpts = _.pick(options, PREWRITE_OPTION_KEYS);
+
+  return writeAsText(tmpPath, strData, writeOpts).then(
+    () => _registerTmpPath(tmpPath, options),
+    (err) => {
+      const rethrow = () => Promise.reject(err);
+      return _removeTmpPath(tmpPath).then(rethrow, rethrow);
+    },
+  );
+}
+
+/**
+ * Write the data to a new temporary path, and Return the path. Unlike {@link API.writeTmpFile}, the file is kept after the process exit unless the keep option is false, for a process outliving this one.
+ *
+ * @memberof API
+ * @param {string | NodeJS.ArrayBufferView} data - A data to write
+ * @param {WriteTmpFileSyncOptions} [options] - Optional parameters
+ * @returns {string} - A temporary file path
+ * @example
+const { writeTmpFileSync } = require('@tuckn/fs-hospitality');
+
+const tmpStr = 'The Temporary Message';
+const tmpPath = writeTmpFileSync(tmpStr);
+// Returns: 'C:\Users\YourName\AppData\Local\Temp\7c70ceef-28f6-4ae8-b4ef-5e5d459ef007'
+
+const fs = require('fs');
+const readData = fs.readFileSync(tmpPath, { encoding: 'utf8' });
+console.log(tmpStr === readData); // true
+
+// Removes on the process exit
+const removedPath = writeTmpFileSync(tmpStr, { keep: false, postfix: '.txt' });
+ */
+export function writeTmpFileSync(
+  data: string | NodeJS.ArrayBufferView,
+  options: WriteTmpFileSyncOptions = {},
+): string {
+  const tmpPath = _makeTmpPathWith(options);
+  fs.writeFileSync(tmpPath, data, _.omit(options, TMP_PATH_OPTION_KEYS));
+  return _registerTmpPath(tmpPath, { keep: true, ...options });
+}
+
+/**
+ * Writes the string to a new temporary file, Calls the function with the path, and Removes the file after the function is finished even if it throws.
+ *
+ * @memberof API
+ * @param {string} strData - A string of data to write
+ * @param {TmpPathFunction} fn - A function to use the temporary file
+ * @param {WriteTmpFileOptions} [options] - See {@link API.writeTmpFile}. Ignores the keep option
+ * @returns {Promise<*>} - { resolve: The value returned by fn, reject: Error }
+ * @example
+const { withTmpFile } = require('@tuckn/fs-hospitality');
+const { execFileSync } = require('child_process');
+
+withTmpFile(
+  'WScript.Echo "Hello"',
+  (vbsPath) => execFileSync('cscript', ['//Nologo', vbsPath]).toString(),
+  { encoding: 'SJIS', eol: 'crlf', postfix: '.vbs' },
+).then((stdout) => {
+  console.log(stdout); // Hello
+});
+ */
+export function withTmpFile<T>(
+  strData: string,
+  fn: TmpPathFunction<T>,
+  options: WriteTmpFileOptions = {},
+): Promise<T> {
+  if (!_.isFunction(fn)) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}fn is not a function.${_errLoc(Function)}`),
+    );
+  }
+
+  const useTmpPath = (tmpPath: string) => _useTmpPath(tmpPath, fn);
+
+  return writeTmpFile(strData, { ...options, keep: false }).then(useTmpPath);
+}
+
+/**
+ * The synchronous version of this API: withTmpFile().
+ *
+ * @memberof API
+ * @param {string} strData - A string of data to write
+ * @param {Function} fn - A function to use the temporary file. Not accepts a Promise
+ * @param {WriteTmpFileOptions} [options] - See {@link API.writeTmpFile}. Ignores the keep option
+ * @returns {*} - The value returned by fn
+ * @example
+const { withTmpFileSync } = require('@tuckn/fs-hospitality');
+const { execFileSync } = require('child_process');
+
+const stdout = withTmpFileSync(
+  'WScript.Echo "Hello"',
+  (vbsPath) => execFileSync('cscript', ['//Nologo', vbsPath]).toString(),
+  { encoding: 'SJIS', eol: 'crlf', postfix: '.vbs' },
+);
+ */
+export function withTmpFileSync<T>(
+  strData: string,
+  fn: (tmpPath: string) => T,
+  options: WriteTmpFileOptions = {},
+): T {
+  if (!_.isFunction(fn)) {
+    throw new Error(`${ARG_ERR}fn is not a function.${_errLoc(Function)}`);
+  }
+
+  const writeOpts = _.pick(options, PREWRITE_OPTION_KEYS);
+  const writeAndUse = (tmpPath: string) => {
+    writeAsTextSync(tmpPath, strData, writeOpts);
+    return fn(tmpPath);
+  };
+
+  // @note Registered before writing to remove also a half-written file
+  const tmpPath = _registerTmpPath(_makeTmpPathWith(options));
+  return _useTmpPathSync(tmpPath, writeAndUse);
+}
+
+/**
+ * Makes a new temporary directory, Calls the function with the path, and Removes the directory and its contents after the function is finished even if it throws.
+ *
+ * @memberof API
+ * @param {TmpPathFunction} fn - A function to use the temporary directory
+ * @param {TmpPathOptions} [options] - See {@link API.mkTmpDir}. Ignores the keep option
+ * @returns {Promise<*>} - { resolve: The value returned by fn, reject: Error }
+ * @example
+const { withTmpDir, writeAsText, convertTextTree } = require('@tuckn/fs-hospitality');
+const path = require('path');
+
+withTmpDir(async (tmpDir) => {
+  await writeAsText(path.join(tmpDir, 'a.txt'), 'foo');
+  return convertTextTree(tmpDir, 'D:\\Dest', { encoding: 'SJIS' });
+}).then((results) => {
+  console.log(results);
+});
+ */
+export function withTmpDir<T>(
+  fn: TmpPathFunction<T>,
+  options: TmpPathOptions = {},
+): Promise<T> {
+  if (!_.isFunction(fn)) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}fn is not a function.${_errLoc(Function)}`),
+    );
+  }
+
+  const useTmpPath = (tmpPath: string) => _useTmpPath(tmpPath, fn);
+
+  return mkTmpDir({ ...options, keep: false }).then(useTmpPath);
+}
+
+/**
+ * The synchronous version of this API: withTmpDir().
+ *
+ * @memberof API
+ * @param {Function} fn - A function to use the temporary directory. Not accepts a Promise
+ * @param {TmpPathOptions} [options] - See {@link API.mkTmpDir}. Ignores the keep option
+ * @returns {*} - The value returned by fn
+ * @example
+const { withTmpDirSync, writeAsTextSync } = require('@tuckn/fs-hospitality');
+const path = require('path');
+
+withTmpDirSync((tmpDir) => {
+  writeAsTextSync(path.join(tmpDir, 'a.txt'), 'foo');
+});
+ */
+export function withTmpDirSync<T>(
+  fn: (tmpPath: string) => T,
+  options: TmpPathOptions = {},
+): T {
+  if (!_.isFunction(fn)) {
+    throw new Error(`${ARG_ERR}fn is not a function.${_errLoc(Function)}`);
+  }
+
+  return _useTmpPathSync(mkTmpDirSync({ ...options, keep: false }), fn);
+}
+
+/**
+ * Removes all temporary paths made by mkTmpDir, writeTmpFile and writeTmpFileSync that have not been removed yet. The same cleanup runs automatically on the process exit.
+ *
+ * @memberof API
+ * @returns {Promise<string[]>} - { resolve: The removed paths, reject: Error }
+ * @example
+const { cleanUpTmpPaths } = require('@tuckn/fs-hospitality');
+
+// e.g. In afterAll() of the test suite
+cleanUpTmpPaths().then((removedPaths) => {
+  console.log(removedPaths.length);
+});
+ */
+export function cleanUpTmpPaths(): Promise<string[]> {
+  const tmpPaths = Array.from(_tmpPaths);
+  const removeTmpPath = (tmpPath: string) =>
+    _removeTmpPath(tmpPath).then(() => tmpPath);
+
+  return Promise.all(tmpPaths.map(removeTmpPath));
+}
+
+/**
+ * The synchronous version of this API: cleanUpTmpPaths().
+ *
+ * @memberof API
+ * @returns {string[]} - The removed paths
+ * @example
+const { cleanUpTmpPathsSync } = require('@tuckn/fs-hospitality');
+
+const removedPaths = cleanUpTmpPathsSync();
+ */
+export function cleanUpTmpPathsSync(): string[] {
+  const tmpPaths = Array.from(_tmpPaths);
+
+  tmpPaths.forEach(_removeTmpPathSync);
+
+  return tmpPaths;
+}
+
+/** @private */
+const DEFAULT_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * @typedef {object} TextReadStreamOptions
+ * @readonly
+ * @property {string} [encoding] - If empty, auto-detecting from the leading sample
+ * @property {number} [sampleSize=65536] - Bytes to buffer for auto-detecting
+ * @property {number} [highWaterMark] - See {@link https://nodejs.org/api/fs.html#fs_fs_createreadstream_path_options|Node.js fs.createReadStream}
+ */
+export type TextReadStreamOptions = {
+  encoding?: string;
+  sampleSize?: number;
+  highWaterMark?: number;
+};
+
+/**
+ * Creates a readable stream of the decoded text. The encoding is detected from the leading sample of the file (See {@link API.detectTextEncoding}), and the file is decoded chunk-by-chunk without splitting multibyte sequences.
+ *
+ * @memberof API
+ * @param {string} filePath - A file-path to read
+ * @param {TextReadStreamOptions} [options] - Optional parameters
+ * @returns {Transform} - A stream emitting strings
+ * @example
+const { createTextReadStream } = require('@tuckn/fs-hospitality');
+
+const rs = createTextReadStream('D:\\Test\\HugeSjis.log');
+
+rs.on('data', (textChunk) => {
+  console.log(textChunk);
+  // Strings parsed with Shift_JIS
+});
+ */
+export function createTextReadStream(
+  filePath: string,
+  options: TextReadStreamOptions = {},
+): Transform {
+  if (!filePath) {
+    throw new Error(`${ARG_ERR}filePath is empty.${_errLoc(Function)}`);
+  }
+
+  const sampleSize = _.get(options, 'sampleSize', DEFAULT_SAMPLE_SIZE);
+  let encoding = _.get(options, 'encoding', '');
+  let decoder: ReturnType<typeof iconv.getDecoder> | null = null;
+  let samples: Buffer[] = [];
+  let sampledLen = 0;
+
+  const startDecoding = (): string => {
+    const sampleBuf = Buffer.concat(samples);
+    samples = [];
+
+    if (!encoding) {
+      encoding = sampleBuf.length > 0 ? detectTextEncoding(sampleBuf) : 'utf8';
+    }
+
+    decoder = iconv.getDecoder(encoding);
+    return decoder.write(sampleBuf);
+  };
+
+  const textStream = new Transform({
+    transform(chunk: Buffer, _enc, callback) {
+      try {
+        if (decoder) return callback(null, decoder.write(chunk));
+
+        samples.push(chunk);
+        sampledLen += chunk.length;
+        if (sampledLen < sampleSize) return callback();
+
+        return callback(null, startDecoding());
+      } catch (e) {
+        return callback(e as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        let tail = '';
+        if (!decoder) tail += startDecoding();
+        tail += (decoder as ReturnType<typeof iconv.getDecoder>).end() || '';
+
+        return callback(null, tail || undefined);
+      } catch (e) {
+        return callback(e as Error);
+      }
+    },
+  });
+  textStream.setEncoding('utf8');
+
+  const highWaterMark = _.get(options, 'highWaterMark', undefined);
+  pipeline(
+    fs.createReadStream(path.resolve(filePath), { highWaterMark }),
+    textStream,
+    () => {}, // Errors are emitted on the textStream
+  );
+
+  return textStream;
+}
+
+/**
+ * Creates a writable stream that writes strings to the file as text. The chunks are formatted line-by-line with {@link PrewriteAsTextOptions}, so huge text can be written with flat memory.
+ *
+ * @memberof API
+ * @param {string} destPath - A destination file-path
+ * @param {PrewriteAsTextOptions} [options] - Optional parameters
+ * @returns {Writable} - A stream accepting strings. 'finish' is emitted after the file is written
+ * @example
+const { createTextReadStream, createTextWriteStream } = require('@tuckn/fs-hospitality');
+const { pipeline } = require('stream');
+
+pipeline(
+  createTextReadStream('D:\\Test\\HugeSjis.log'),
+  createTextWriteStream('D:\\Test\\HugeUtf16.log', {
+    trim: 'end',
+    eol: 'crlf',
+    bom: true,
+    encoding: 'utf16-le',
+  }),
+  (err) => {
+    if (err) throw err;
+    console.log('Writing successful');
+  },
+);
+ */
+export function createTextWriteStream(
+  destPath: string,
+  options: PrewriteAsTextOptions = {},
+): Writable {
+  if (!destPath) {
+    throw new Error(`${ARG_ERR}destPath is empty.${_errLoc(Function)}`);
+  }
+
+  const filePath = path.resolve(destPath);
+
+  let addBOM = { addBOM: false };
+  if (_.get(options, 'bom', false)) addBOM = { addBOM: true };
+
+  const encoding = _.get(options, 'encoding', 'utf8');
+  const encoder = iconv.getEncoder(encoding, addBOM);
+
+  const dirPath = path.dirname(filePath);
+  if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+
+  const fileStream = fs.createWriteStream(filePath);
+  let pending = '';
+
+  const textStream = new Writable({
+    decodeStrings: false,
+    write(chunk: string | Buffer, _enc, callback) {
+      try {
+        const text = pending + chunk.toString();
+
+        // @note Holds the incomplete line. A trailing CR is also held
+        // because the next chunk may start with LF.
+        let searchFrom = text.length - 1;
+        if (text.endsWith('\r')) searchFrom -= 1;
+        const lastEol = Math.max(
+          text.lastIndexOf('\n', searchFrom),
+          text.lastIndexOf('\r', searchFrom),
+        );
+        pending = text.slice(lastEol + 1);
+
+        const lines = text.slice(0, lastEol + 1);
+        if (!lines) return callback();
+
+        return fileStream.write(
+          encoder.write(_prewriteAsText(lines, options)),
+          callback,
+        );
+      } catch (e) {
+        return callback(e as Error);
+      }
+    },
+    final(callback) {
+      try {
+        const tail = Buffer.concat([
+          encoder.write(_prewriteAsText(pending, options)),
+          encoder.end() || Buffer.alloc(0),
+        ]);
+        pending = '';
+
+        return fileStream.end(tail, callback);
+      } catch (e) {
+        return callback(e as Error);
+      }
+    },
+    destroy(err, callback) {
+      fileStream.destroy();
+      callback(err);
+    },
+  });
+
+  fileStream.on('error', (err) => textStream.destroy(err));
+
+  return textStream;
+}
+
+/**
+ * @typedef {string} LinkType
+ * "symlink" | "hardlink" | "junction"
+ */
+export type LinkType = 'symlink' | 'hardlink' | 'junction';
+
+const LINK_TYPES: LinkType[] = ['symlink', 'hardlink', 'junction'];
+
+/**
+ * @typedef {object} CreateLinkOptions
+ * @readonly
+ * @property {LinkType} [type="symlink"] - "junction" is for directories on Windows. On POSIX, it creates a symbolic-link
+ * @property {boolean} [relative=false] - If true, the symbolic-link points to the relative path from the directory of newPath. Ignored with "hardlink" and "junction"
+ */
+export type CreateLinkOptions = {
+  type?: LinkType;
+  relative?: boolean;
+};
+
+/**
+ * @typedef {object} LinkResult
+ * @property {LinkType} type - The type of the created link
+ * @property {string} path - The absolute path of the created link
+ * @property {string} target - The path written in the link. The absolute path of existingPath for "hardlink"
+ * @property {string} existingPath - The absolute path of the linked file or directory
+ * @property {boolean} isDirectory - Whether the linked one is a directory
+ */
+export interface LinkResult {
+  type: LinkType;
+  path: string;
+  target: string;
+  existingPath: string;
+  isDirectory: boolean;
+}
+
+/**
+ * @typedef {Error} LinkError
+ * @property {string} code - The code of the fs Error. Ex. "EEXIST", "EPERM". "ERR_INVALID_ARG_VALUE" for the invalid arguments
+ * @property {string} path - existingPath
+ * @property {string} dest - newPath
+ */
+export interface LinkError extends Error {
+  code: string;
+  path: string;
+  dest: string;
+}
+
+/**
+ * @private
+ * @param {unknown} error - An Error thrown while creating a link
+ * @param {string} existingPath - A source file or directory
+ * @param {string} newPath - A destination path
+ * @returns {LinkError} - The same Error with code, path and dest
+ */
+function _toLinkError(
+  error: unknown,
+  existingPath: string,
+  newPath: string,
+): LinkError {
+  const err = _.isError(error) ? error : new Error(String(error));
+
+  return Object.assign(err, {
+    code: _.get(err, 'code', 'ERR_INVALID_ARG_VALUE'),
+    path: existingPath,
+    dest: newPath,
+  });
+}
+
+/**
+ * Validates the arguments of createLink and createLinkSync. Throws an Error if invalid.
+ *
+ * @private
+ * @param {string} existingPath - A source file or directory
+ * @param {string} newPath - A destination path
+ * @param {CreateLinkOptions} options - Optional parameters
+ * @returns {LinkType} - The type of the link to create
+ */
+function _validateLinkArgs(
+  existingPath: string,
+  newPath: string,
+  options: CreateLinkOptions,
+): LinkType {
+  if (!existingPath) {
+    throw new Error(`${ARG_ERR}existingPath is empty.${_errLoc(Function)}`);
+  }
+
+  if (!newPath) {
+    throw new Error(`${ARG_ERR}newPath is empty.${_errLoc(Function)}`);
+  }
+
+  const type = _.get(options, 'type', 'symlink');
+  if (!LINK_TYPES.includes(type)) {
+    throw new Error(`${ARG_ERR}type is invalid: ${type}.${_errLoc(Function)}`);
+  }
+
+  return type;
+}
+
+/**
+ * Decides the link to create from the stats of the existing path.
+ *
+ * @private
+ * @param {string} existingPath - A source file or directory
+ * @param {string} newPath - A destination path
+ * @param {fs.Stats} stats - The stats of existingPath
+ * @param {LinkType} type - The type of the link
+ * @param {CreateLinkOptions} options - Optional parameters
+ * @returns {LinkResult} -
+ */
+function _planLink(
+  existingPath: string,
+  newPath: string,
+  stats: fs.Stats,
+  type: LinkType,
+  options: CreateLinkOptions,
+): LinkResult {
+  const isDirectory = stats.isDirectory();
+
+  if (type === 'hardlink' && isDirectory) {
+    throw new Error(
+      `${ARG_ERR}A directory can not be hard-linked: ${existingPath}.${_errLoc(
+        Function,
+      )}`,
+    );
+  }
+
+  if (type === 'junction' && !isDirectory) {
+    throw new Error(
+      `${ARG_ERR}A junction requires a directory: ${existingPath}.${_errLoc(
+        Function,
+      )}`,
+    );
+  }
+
+  const absExisting = path.resolve(existingPath);
+  const absNew = path.resolve(newPath);
+  const isRelative = type === 'symlink' && _.get(options, 'relative', false);
+
+  return {
+    type,
+    path: absNew,
+    target: isRelative
+      ? path.relative(path.dirname(absNew), absExisting)
+      : absExisting,
+    existingPath: absExisting,
+    isDirectory,
+  };
+}
+
+/**
+ * @private
+ * @param {LinkResult} link -
+ * @returns {string} - The type argument of fs.symlink
+ */
+function _toSymlinkType(link: LinkResult): 'dir' | 'file' | 'junction' {
+  if (link.type === 'junction') return 'junction';
+  return link.isDirectory ? 'dir' : 'file';
+}
+
+/**
+ * Creates a link to an existing file or directory with the same API on every OS. The symbolic-link is created with fs.symlink also on Windows (requires admin rights or Developer Mode).
+ *
+ * @memberof API
+ * @param {string} existingPath - A source file or directory
+ * @param {string} newPath - A destination path
+ * @param {CreateLinkOptions} [options] - Optional parameters
+ * @returns {Promise<LinkResult>} - Rejected with {@link LinkError}
+ * @example
+const { createLink } = require('@tuckn/fs-hospitality');
+
+createLink('/home/tuckn/shared/assets', '/home/tuckn/app/assets', {
+  relative: true,
+}).then((link) => {
+  console.log(link);
+  // {
+  //   type: 'symlink',
+  //   path: '/home/tuckn/app/assets',
+  //   target: '../shared/assets',
+  //   existingPath: '/home/tuckn/shared/assets',
+  //   isDirectory: true
+  // }
+});
+ */
+export async function createLink(
+  existingPath: string,
+  newPath: string,
+  options: CreateLinkOptions = {},
+): Promise<LinkResult> {
+  try {
+    const type = _validateLinkArgs(existingPath, newPath, options);
+
+    const stats = await new Promise<fs.Stats>((resolve, reject) => {
+      fs.stat(existingPath, (err, statSrc) => {
+        if (err) return reject(err);
+        return resolve(statSrc);
+      });
+    });
+
+    const link = _planLink(existingPath, newPath, stats, type, options);
+
+    await new Promise<void>((resolve, reject) => {
+      const callback = (err: NodeJS.ErrnoException | null) => {
+        if (err) return reject(err);
+        return resolve();
+      };
+
+      if (link.type === 'hardlink') {
+        fs.link(link.existingPath, link.path, callback);
+      } else {
+        fs.symlink(link.target, link.path, _toSymlinkType(link), callback);
+      }
+    });
+
+    return link;
+  } catch (e) {
+    return Promise.reject(_toLinkError(e, existingPath, newPath));
+  }
+}
+
+/**
+ * The synchronous version of this API: createLink().
+ *
+ * @memberof API
+ * @param {string} existingPath - A source file or directory
+ * @param {string} newPath - A destination path
+ * @param {CreateLinkOptions} [options] - Optional parameters
+ * @returns {LinkResult} - Throws {@link LinkError}
+ * @example
+const { createLinkSync } = require('@tuckn/fs-hospitality');
+
+const link = createLinkSync('D:\\MySrc\\TestDir', 'C:\\Test', {
+  type: 'junction',
+});
+// {
+//   type: 'junction',
+//   path: 'C:\\Test',
+//   target: 'D:\\MySrc\\TestDir',
+//   existingPath: 'D:\\MySrc\\TestDir',
+//   isDirectory: true
+// }
+ */
+export function createLinkSync(
+  existingPath: string,
+  newPath: string,
+  options: CreateLinkOptions = {},
+): LinkResult {
+  try {
+    const type = _validateLinkArgs(existingPath, newPath, options);
+    const stats = fs.statSync(existingPath);
+    const link = _planLink(existingPath, newPath, stats, type, options);
+
+    if (link.type === 'hardlink') {
+      fs.linkSync(link.existingPath, link.path);
+    } else {
+      fs.symlinkSync(link.target, link.path, _toSymlinkType(link));
+    }
+
+    return link;
+  } catch (e) {
+    throw _toLinkError(e, existingPath, newPath);
+  }
+}
+
+/**
+ * Creates a new symbolic link to an existing file or directory. The same as {@link API.createLink} with the "symlink" type. On Windows, requires admin rights or Developer Mode. The paths are never passed to a shell.
+ *
+ * @memberof API
+ * @param {string} existingPath - A source file or direcotry
+ * @param {string} newPath - A destination path
+ * @returns {Promise<LinkResult>} - Rejected with {@link LinkError}
+ * @example
+const { mklink } = require('@tuckn/fs-hospitality');
+
+mklink('D:\\MySrc\\TestDir', 'C:\\Test').then((link) => {
+  console.log(link.path); // C:\Test
+}).catch((err) => {
+  console.error(err.code, err.path, err.dest);
+  // EPERM D:\MySrc\TestDir C:\Test
+});
+ */
+export function mklink(
+  existingPath: string,
+  newPath: string,
+): Promise<LinkResult> {
+  return createLink(existingPath, newPath, { type: 'symlink' });
+}
+
+/**
+ * The synchronous version of this API: mklink().
+ *
+ * @memberof API
+ * @param {string} existingPath - A source file or direcotry
+ * @param {string} newPath - A destination path
+ * @returns {LinkResult} - Throws {@link LinkError}
+ * @example
+const { mklinkSync } = require('@tuckn/fs-hospitality');
+
+const link = mklinkSync('D:\\MySrc\\TestDir', 'C:\\Test');
+ */
+export function mklinkSync(existingPath: string, newPath: string): LinkResult {
+  return createLinkSync(existingPath, newPath, { type: 'symlink' });
+}
+
+/**
+ * fs.readdir Promisification. {@link https://nodejs.org/api/fs.html#fs_fs_readdir_path_options_callback|Node.js fs.readdir}
+ *
+ * @memberof API
+ * @param {string} dirPath - A directory path
+ * @param {object} [options] - See {@link https://nodejs.org/api/fs.html#fs_fs_readdir_path_options_callback|Node.js fs.readdir}
+ * @returns {Promise<string[]|Buffer[]|fs.Dirent[]>} - Returns array of fs.Dirent
+ */
+export function readdirPromise(
+  dirPath: string,
+  options = {},
+): Promise<string[] | Buffer[] | fs.Dirent[]> {
+  return new Promise((resolve, reject) => {
+    fs.readdir(dirPath, options, (err, files) => {
+      if (err) return reject(err);
+      return resolve(files);
+    });
+  });
+}
+
+/**
+ * @private
+ * @param {string} filePath -
+ * @returns {Promise<fs.Stats>} - The stats of the path itself. Not following symbolic-links
+ */
+function _lstatPromise(filePath: string): Promise<fs.Stats> {
+  return new Promise((resolve, reject) => {
+    fs.lstat(filePath, (err, stats) => {
+      if (err) return reject(err);
+      return resolve(stats);
+    });
+  });
+}
+
+/**
+ * @private
+ * @param {string} filePath -
+ * @returns {Promise<fs.Stats>} - The stats of the path. Following symbolic-links
+ */
+function _statPromise(filePath: string): Promise<fs.Stats> {
+  return new Promise((resolve, reject) => {
+    fs.stat(filePath, (err, stats) => {
+      if (err) return reject(err);
+      return resolve(stats);
+    });
+  });
+}
+
+/**
+ * @private
+ * @typedef {object} LinkStatus
+ * @property {string} linkTarget - The target path written in the symbolic-link
+ * @property {boolean} isBrokenLink - Whether the target does not exist
+ */
+interface LinkStatus {
+  linkTarget: string;
+  isBrokenLink: boolean;
+}
+
+/**
+ * @private
+ * @param {string} linkPath - A symbolic-link path
+ * @returns {Promise<LinkStatus>} -
+ */
+function _readLinkStatus(linkPath: string): Promise<LinkStatus> {
+  return new Promise((resolve, reject) => {
+    fs.readlink(linkPath, (err, linkTarget) => {
+      if (err) return reject(err);
+
+      // @note fs.stat follows the link. A failure means the target is missing
+      return fs.stat(linkPath, (errStat) => {
+        resolve({ linkTarget, isBrokenLink: !!errStat });
+      });
+    });
+  });
+}
+
+/**
+ * @private
+ * @param {string} linkPath - A symbolic-link path
+ * @returns {LinkStatus} -
+ */
+function _readLinkStatusSync(linkPath: string): LinkStatus {
+  const linkTarget = fs.readlinkSync(linkPath);
+
+  try {
+    fs.statSync(linkPath);
+    return { linkTarget, isBrokenLink: false };
+  } catch (e) {
+    return { linkTarget, isBrokenLink: true };
+  }
+}
+
+/**
+ * The default number of the file system operations run at once while walking.
+ *
+ * @private
+ */
+const DEFAULT_CONCURRENCY = 32;
+
+/**
+ * @private
+ * @typedef {object} TaskQueue
+ * @property {Function} run - (task) => Promise. Runs the task when the running tasks are fewer than the concurrency
+ */
+interface TaskQueue {
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * @private
+ * @returns {Error} - An Error named "AbortError" like the ones of Node.js
+ */
+function _createAbortError(): Error {
+  return Object.assign(new Error('The operation was aborted'), {
+    name: 'AbortError',
+    code: 'ABORT_ERR',
+  });
+}
+
+/**
+ * @private
+ * @param {unknown} error -
+ * @returns {boolean} -
+ */
+function _isAbortError(error: unknown): boolean {
+  return _.get(error, 'name') === 'AbortError';
+}
+
+/**
+ * @private
+ * @param {AbortSignal} [signal] -
+ * @returns {void}
+ */
+function _throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal && signal.aborted) throw _createAbortError();
+}
+
+/**
+ * Creates a queue running the tasks with a limited concurrency. The queue is shared by the whole walking not to open too many files at once. The tasks started after the signal is aborted are rejected.
+ *
+ * @private
+ * @param {number} concurrency - The max number of the running tasks
+ * @param {AbortSignal} [signal] -
+ * @returns {TaskQueue} -
+ */
+function _createTaskQueue(
+  concurrency: number,
+  signal?: AbortSignal | null,
+): TaskQueue {
+  let running = 0;
+  const waitings: Array<() => void> = [];
+
+  const next = () => {
+    running -= 1;
+    const start = waitings.shift();
+    if (start) start();
+  };
+
+  const run = <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const start = () => {
+        running += 1;
+        Promise.resolve()
+          .then(() => {
+            _throwIfAborted(signal);
+            return task();
+          })
+          .then(resolve, reject)
+          .finally(next);
+      };
+
+      if (running < concurrency) start();
+      else waitings.push(start);
+    });
+
+  return { run };
+}
+
+/**
+ * Runs the task via the queue of the walking. Without the queue, runs it immediately.
+ *
+ * @private
+ * @param {object} options - Having the private _queue option
+ * @param {Function} task - () => Promise
+ * @returns {Promise} -
+ */
+function _runTask<T>(options: object, task: () => Promise<T>): Promise<T> {
+  const queue: TaskQueue | undefined = _.get(options, '_queue');
+  return queue ? queue.run(task) : task();
+}
+
+/**
+ * Maps the items with an async function. Every call is run via the queue of the walking.
+ *
+ * @private
+ * @param {Array} items -
+ * @param {object} options - Having the private _queue option
+ * @param {Function} fn - (item) => Promise
+ * @returns {Promise<Array>} - The results in the order of the items
+ */
+function _mapWithQueue<T, U>(
+  items: T[],
+  options: object,
+  fn: (item: T) => Promise<U>,
+): Promise<U[]> {
+  return Promise.all(items.map((item) => _runTask(options, () => fn(item))));
+}
+
+/**
+ * @typedef {object} FileInfo
+ * @property {string} name -
+ * @property {string} path -
+ * @property {boolean} isDirectory -
+ * @property {boolean} isFile -
+ * @property {boolean} isSymbolicLink -
+ * @property {number} [size] - With the withStats option
+ * @property {Date} [mtime] - With the withStats option
+ * @property {Date} [ctime] - With the withStats option
+ * @property {Date} [birthtime] - With the withStats option
+ * @property {number} [mode] - With the withStats option
+ * @property {number} [uid] - With the withStats option
+ * @property {number} [gid] - With the withStats option
+ * @property {number} [ino] - With the withStats option
+ * @property {string} [linkTarget] - With the withStats option. Only a symbolic-link
+ * @property {boolean} [isBrokenLink] - With the withStats option. Only a symbolic-link
+ * @property {boolean} [viaSymlink] - With the followSymlinks option. Whether reached via a symbolic-link to a directory
+ */
+export interface FileInfo {
+  name: string;
+  relPath: string;
+  path: string;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymbolicLink: boolean;
+  size?: number;
+  mtime?: Date;
+  ctime?: Date;
+  birthtime?: Date;
+  mode?: number;
+  uid?: number;
+  gid?: number;
+  ino?: number;
+  linkTarget?: string;
+  isBrokenLink?: boolean;
+  viaSymlink?: boolean;
+}
+
+/**
+ * @private
+ * @param {FileInfo} fileInfo -
+ * @param {fs.Stats} stats - The stats of the path itself
+ * @param {LinkStatus} [linkStatus] - Only a symbolic-link
+ * @returns {FileInfo} - A new FileInfo with the stats
+ */
+function _assignStats(
+  fileInfo: FileInfo,
+  stats: fs.Stats,
+  linkStatus?: LinkStatus,
+): FileInfo {
+  return {
+    ...fileInfo,
+    size: stats.size,
+    mtime: stats.mtime,
+    ctime: stats.ctime,
+    birthtime: stats.birthtime,
+    mode: stats.mode,
+    uid: stats.uid,
+    gid: stats.gid,
+    ino: stats.ino,
+    ...linkStatus,
+  };
+}
+
+/**
+ * @private
+ * @param {FileInfo} fileInfo -
+ * @param {fs.Stats} [stats] - If empty, stats the path
+ * @returns {Promise<FileInfo>} - A new FileInfo with the stats
+ */
+async function _addStats(
+  fileInfo: FileInfo,
+  stats?: fs.Stats,
+): Promise<FileInfo> {
+  const linkStatus = fileInfo.isSymbolicLink
+    ? await _readLinkStatus(fileInfo.path)
+    : undefined;
+
+  return _assignStats(
+    fileInfo,
+    stats || (await _lstatPromise(fileInfo.path)),
+    linkStatus,
+  );
+}
+
+/**
+ * @private
+ * @param {string|RegExp} [regExp] - A RegExp or a string to be a case-insensitive RegExp
+ * @returns {RegExp|null} -
+ */
+function _toRegExp(regExp?: string | RegExp | null): RegExp | null {
+  if (!regExp) return null;
+  if (_.isRegExp(regExp)) return regExp;
+  return new RegExp(regExp, 'i');
+}
+
+/**
+ * @private
+ * @param {string} relPath - A relative path with the OS-specific separators
+ * @returns {string} - The path with forward-slashes
+ */
+function _toPosixPath(relPath: string): string {
+  return relPath.split(path.sep).join('/');
+}
+
+/**
+ * @typedef {string|Function} FileInfoSortOrder
+ * "name" | "path" | "dirs-first" | "files-first" | "mtime" | "size" | (a: FileInfo, b: FileInfo) => number
+ */
+export type FileInfoSortOrder =
+  | 'name'
+  | 'path'
+  | 'dirs-first'
+  | 'files-first'
+  | 'mtime'
+  | 'size'
+  | ((a: FileInfo, b: FileInfo) => number);
+
+/**
+ * Compares strings by the code units, not depending on the locale.
+ *
+ * @private
+ * @param {string} a -
+ * @param {string} b -
+ * @returns {number} - 0|1|-1
+ */
+function _compareStr(a: string, b: string): 0 | 1 | -1 {
+  if (a > b) return 1;
+  if (a < b) return -1;
+  return 0;
+}
+
+/**
+ * Sort-Function for FileInfo objects of Array. Sorts with the forward-slash relative path.
+ *
+ * @private
+ * @param {FileInfo} a -
+ * @param {FileInfo} b -
+ * @returns {number} - 0|1|-1
+ */
+function _compareRelPath(a: FileInfo, b: FileInfo): 0 | 1 | -1 {
+  return _compareStr(_toPosixPath(a.relPath), _toPosixPath(b.relPath));
+}
+
+/**
+ * Sort-Function for FileInfo objects of Array. Sorts with name and file-type.
+ *
+ * @private
+ * @param {FileInfo} a -
  * @param {FileInfo} b -
  * @returns {number} - 0|1|-1
  */
-function sortFileInfo(a: FileInfo, b: FileInfo): 0 | 1 | -1 {
-  let comparison: 0 | 1 | -1 = 0;
+function sortFileInfo(a: FileInfo, b: FileInfo): 0 | 1 | -1 {
+  let comparison: 0 | 1 | -1 = 0;
+
+  if (a.isDirectory && !b.isDirectory) {
+    comparison = 1;
+  } else if (!a.isDirectory && b.isDirectory) {
+    comparison = -1;
+  } else {
+    comparison = _compareRelPath(a, b);
+  }
+
+  return comparison;
+}
+
+/**
+ * @private
+ * @param {FileInfoSortOrder} [sort] -
+ * @returns {boolean} -
+ */
+function _isValidSortOrder(sort?: FileInfoSortOrder | null): boolean {
+  if (!sort || _.isFunction(sort)) return true;
+  return [
+    'name',
+    'path',
+    'dirs-first',
+    'files-first',
+    'mtime',
+    'size',
+  ].includes(sort);
+}
+
+/**
+ * @private
+ * @param {FileInfoSortOrder} [sort] -
+ * @returns {boolean} - Whether the sort order requires fs.Stats
+ */
+function _sortsWithStats(sort?: FileInfoSortOrder | null): boolean {
+  return sort === 'mtime' || sort === 'size';
+}
+
+/**
+ * Sorts FileInfo objects. The ties are sorted with the relative path.
+ *
+ * @private
+ * @param {FileInfo[]} fileInfos -
+ * @param {FileInfoSortOrder} sort -
+ * @param {fs.Stats[]} [stats] - The stats of the fileInfos. Required with "mtime" and "size"
+ * @returns {FileInfo[]} - A new sorted array
+ */
+function _sortFileInfos(
+  fileInfos: FileInfo[],
+  sort: FileInfoSortOrder,
+  stats: fs.Stats[] = [],
+): FileInfo[] {
+  if (_.isFunction(sort)) {
+    return [...fileInfos].sort((a, b) => sort(a, b) || _compareRelPath(a, b));
+  }
+
+  const statMap = new Map<FileInfo, fs.Stats>();
+  fileInfos.forEach((fileInfo, i) => statMap.set(fileInfo, stats[i]));
+
+  const comparators: { [key: string]: (a: FileInfo, b: FileInfo) => number } = {
+    name: (a, b) => _compareStr(a.name, b.name) || _compareRelPath(a, b),
+    path: _compareRelPath,
+    'dirs-first': (a, b) =>
+      Number(b.isDirectory) - Number(a.isDirectory) || _compareRelPath(a, b),
+    'files-first': sortFileInfo,
+    mtime: (a, b) =>
+      (statMap.get(a) as fs.Stats).mtimeMs -
+        (statMap.get(b) as fs.Stats).mtimeMs || _compareRelPath(a, b),
+    size: (a, b) =>
+      (statMap.get(a) as fs.Stats).size - (statMap.get(b) as fs.Stats).size ||
+      _compareRelPath(a, b),
+  };
+
+  return [...fileInfos].sort(comparators[sort]);
+}
+
+/**
+ * Makes functions testing a relative path with the matchedRegExp, ignoredRegExp, include and exclude options. The glob patterns are matched on the forward-slash path on every OS.
+ *
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {object} - { isMatched, isIgnored }. isMatched tests all of the options, isIgnored tests only ignoredRegExp and the excluding patterns
+ */
+function _makePathMatcher(options: object): {
+  isMatched: (relPath: string, isDirectory: boolean) => boolean;
+  isIgnored: (relPath: string, isDirectory: boolean) => boolean;
+} {
+  const mtchRE = _toRegExp(_.get(options, 'matchedRegExp', null));
+  const ignrRE = _toRegExp(_.get(options, 'ignoredRegExp', null));
+
+  const globOpts = { dot: true };
+  const includes: minimatch.IMinimatch[] = [];
+  const excludes: minimatch.IMinimatch[] = [];
+
+  // @note A pattern starting with "!" in the include option excludes
+  _.castArray<string>(_.get(options, 'include', [])).forEach((ptn) => {
+    if (ptn.startsWith('!')) {
+      excludes.push(new minimatch.Minimatch(ptn.slice(1), globOpts));
+    } else {
+      includes.push(new minimatch.Minimatch(ptn, globOpts));
+    }
+  });
+
+  _.castArray<string>(_.get(options, 'exclude', [])).forEach((ptn) => {
+    excludes.push(new minimatch.Minimatch(ptn.replace(/^!/, ''), globOpts));
+  });
+
+  // @note A directory also matches with a trailing slash. e.g. "dir/**"
+  const matchesAny = (mms: minimatch.IMinimatch[], p: string, isDir: boolean) =>
+    mms.some((mm) => mm.match(p) || (isDir && mm.match(`${p}/`)));
+
+  const isIgnored = (relPath: string, isDirectory: boolean) => {
+    if (ignrRE && ignrRE.test(relPath)) return true;
+    return matchesAny(excludes, _toPosixPath(relPath), isDirectory);
+  };
+
+  const isMatched = (relPath: string, isDirectory: boolean) => {
+    if (mtchRE && !mtchRE.test(relPath)) return false;
+
+    const globPath = _toPosixPath(relPath);
+    if (includes.length > 0 && !matchesAny(includes, globPath, isDirectory)) {
+      return false;
+    }
+
+    return !isIgnored(relPath, isDirectory);
+  };
+
+  return { isMatched, isIgnored };
+}
+
+/**
+ * @private
+ * @typedef {object} IgnoreScope
+ * @property {string} baseDir - The forward-slash relative path of the directory having the ignore files
+ * @property {Ignore} ig - The rules of the ignore files
+ */
+interface IgnoreScope {
+  baseDir: string;
+  ig: Ignore;
+}
+
+/**
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {fs.Dirent[]} dirents - The entries of the directory
+ * @returns {string[]} - The names of the ignore files in the directory
+ */
+function _findIgnoreFiles(options: object, dirents: fs.Dirent[]): string[] {
+  const ignoreFiles = _.castArray<string>(
+    _.get(options, 'respectIgnoreFiles', []),
+  );
+  if (ignoreFiles.length === 0) return [];
+
+  return dirents
+    .filter((dirent) => dirent.isFile() && ignoreFiles.includes(dirent.name))
+    .map((dirent) => dirent.name);
+}
+
+/**
+ * @private
+ * @param {object} options - Having the private _ignoreScopes option
+ * @param {string} prefixDirName - The relative path of the directory
+ * @param {string[]} rules - The contents of the ignore files in the directory
+ * @returns {IgnoreScope[]} - The scopes from the root to the directory
+ */
+function _addIgnoreScope(
+  options: object,
+  prefixDirName: string,
+  rules: string[],
+): IgnoreScope[] {
+  const scopes: IgnoreScope[] = _.get(options, '_ignoreScopes', []);
+  if (rules.length === 0) return scopes;
+
+  return scopes.concat({
+    baseDir: _toPosixPath(prefixDirName),
+    ig: ignore().add(rules.join('\n')),
+  });
+}
+
+/**
+ * Tests a path with the scopes like Git. A deeper ignore file takes precedence, and a negated rule re-includes the path.
+ *
+ * @private
+ * @param {IgnoreScope[]} scopes - The scopes from the root to the directory
+ * @param {string} relPath - A relative path with the OS-specific separators
+ * @param {boolean} isDirectory - Whether the path is a directory
+ * @returns {boolean} -
+ */
+function _isIgnoredByScopes(
+  scopes: IgnoreScope[],
+  relPath: string,
+  isDirectory: boolean,
+): boolean {
+  const posixPath = _toPosixPath(relPath);
+
+  return scopes.reduce((isIgnored, scope) => {
+    let pathInScope = posixPath;
+    if (scope.baseDir) pathInScope = posixPath.slice(scope.baseDir.length + 1);
+    if (isDirectory) pathInScope += '/';
+
+    const { ignored, unignored } = scope.ig.test(pathInScope);
+    if (ignored) return true;
+    if (unignored) return false;
+    return isIgnored;
+  }, false);
+}
+
+/**
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {fs.Dirent[]} dirents - The entries of the dirPath
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {Promise<string[]>} - The contents of the ignore files in the dirPath
+ */
+function _readIgnoreRules(
+  dirPath: string,
+  dirents: fs.Dirent[],
+  options: object,
+): Promise<string[]> {
+  const readIgnoreFile = async (name: string) =>
+    (await readFilePromise(path.join(dirPath, name), {
+      encoding: 'utf8',
+    })) as string;
+
+  return _mapWithQueue(
+    _findIgnoreFiles(options, dirents),
+    options,
+    readIgnoreFile,
+  );
+}
+
+/**
+ * @private
+ * @param {string} filePath -
+ * @returns {Promise<fs.Stats|null>} - The stats of the link target. null if not exists
+ */
+function _statOrNull(filePath: string): Promise<fs.Stats | null> {
+  return new Promise((resolve) => {
+    fs.stat(filePath, (err, stats) => resolve(err ? null : stats));
+  });
+}
+
+/**
+ * @private
+ * @param {fs.Stats} stats -
+ * @returns {string} - The key to identify the directory. "dev:ino"
+ */
+function _toInodeKey(stats: fs.Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
+
+/**
+ * @private
+ * @typedef {object} LinksToFollow
+ * @property {string[]} dirNames - The names of the symbolic-links to directories. Listed as the directories
+ * @property {string[]} names - The names of the symbolic-links to descend into
+ * @property {string[]} ancestors - The inode keys of the directory and its ancestors
+ */
+interface LinksToFollow {
+  dirNames: string[];
+  names: string[];
+  ancestors: string[];
+}
+
+/**
+ * Sorts out the symbolic-links to directories. A link to an ancestor directory is listed but not descended into, not to loop infinitely. Decided only with the path, so the result does not depend on the order of the reading.
+ *
+ * @private
+ * @param {Array} links - The symbolic-links and the stats of the targets. null if broken
+ * @param {string[]} ancestors - The inode keys of the directory and its ancestors
+ * @returns {LinksToFollow} -
+ */
+function _sortOutLinks(
+  links: Array<{ dirent: fs.Dirent; stats: fs.Stats | null }>,
+  ancestors: string[],
+): LinksToFollow {
+  const dirLinks = links.filter(({ stats }) => stats && stats.isDirectory());
+
+  return {
+    dirNames: dirLinks.map(({ dirent }) => dirent.name),
+    names: dirLinks
+      .filter(
+        ({ stats }) => !ancestors.includes(_toInodeKey(stats as fs.Stats)),
+      )
+      .map(({ dirent }) => dirent.name),
+    ancestors,
+  };
+}
+
+/**
+ * Finds the symbolic-links to the directories with the followSymlinks option. See {@link _sortOutLinks}.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {fs.Dirent[]} dirents - The entries of the dirPath
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {Promise<LinksToFollow>} -
+ */
+async function _findLinksToFollow(
+  dirPath: string,
+  dirents: fs.Dirent[],
+  options: object,
+): Promise<LinksToFollow> {
+  if (!_.get(options, 'followSymlinks', false)) {
+    return { dirNames: [], names: [], ancestors: [] };
+  }
+
+  // @note Rejects if the directory was removed while walking
+  const dirStats = await _runTask(options, () => _statPromise(dirPath));
+  const ancestors = [
+    ..._.get(options, '_ancestors', []),
+    _toInodeKey(dirStats),
+  ];
+
+  const statLink = async (dirent: fs.Dirent) => ({
+    dirent,
+    stats: await _statOrNull(path.join(dirPath, dirent.name)),
+  });
+  const links = await _mapWithQueue(
+    dirents.filter((dirent) => dirent.isSymbolicLink()),
+    options,
+    statLink,
+  );
+
+  return _sortOutLinks(links, ancestors);
+}
+
+/**
+ * The synchronous version of _findLinksToFollow.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {fs.Dirent[]} dirents - The entries of the dirPath
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {LinksToFollow} -
+ */
+function _findLinksToFollowSync(
+  dirPath: string,
+  dirents: fs.Dirent[],
+  options: object,
+): LinksToFollow {
+  if (!_.get(options, 'followSymlinks', false)) {
+    return { dirNames: [], names: [], ancestors: [] };
+  }
+
+  const ancestors = [
+    ..._.get(options, '_ancestors', []),
+    _toInodeKey(fs.statSync(dirPath)),
+  ];
+
+  const statOrNull = (dirent: fs.Dirent) => {
+    try {
+      return fs.statSync(path.join(dirPath, dirent.name));
+    } catch (e) {
+      return null; // A broken link
+    }
+  };
+
+  const links = dirents
+    .filter((dirent) => dirent.isSymbolicLink())
+    .map((dirent) => ({ dirent, stats: statOrNull(dirent) }));
+
+  return _sortOutLinks(links, ancestors);
+}
+
+/**
+ * @private
+ * @typedef {object} DirEntries
+ * @property {FileInfo[]} files - The matched entries except directories
+ * @property {object[]} dirs - { fileInfo, isListed, isFollowed }. The directories not ignored. isFollowed is false for a link to an ancestor
+ * @property {boolean} descends - Whether to descend into the dirs
+ * @property {IgnoreScope[]} ignoreScopes - The ignore scopes including this directory
+ * @property {number} depth - The depth of the entries. The top is 1
+ * @property {string[]} ancestors - See {@link LinksToFollow}
+ * @property {boolean} viaSymlink - Whether the directory is reached via a symbolic-link
+ */
+interface DirEntries {
+  files: FileInfo[];
+  dirs: Array<{ fileInfo: FileInfo; isListed: boolean; isFollowed: boolean }>;
+  descends: boolean;
+  ignoreScopes: IgnoreScope[];
+  depth: number;
+  ancestors: string[];
+  viaSymlink: boolean;
+}
+
+/**
+ * Filters the entries of one directory with the options of readdirRecursively. The binary files are not filtered yet.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {fs.Dirent[]} dirents - The entries of the dirPath
+ * @param {string[]} ignoreRules - The contents of the ignore files in the dirPath
+ * @param {LinksToFollow} links - The symbolic-links to descend into
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {DirEntries} -
+ */
+function _filterDirents(
+  dirPath: string,
+  dirents: fs.Dirent[],
+  ignoreRules: string[],
+  links: LinksToFollow,
+  options: object,
+): DirEntries {
+  // Filtering Options
+  const isOnlyFile = _.get(options, 'isOnlyFile', false);
+  const isOnlyDir = _.get(options, 'isOnlyDir', false);
+  const excludesSymlink = _.get(options, 'excludesSymlink', false);
+  const minDepth = _.get(options, 'minDepth', 0);
+  const maxDepth = _.get(options, 'maxDepth', Infinity);
+  const prune = _.get(options, 'prune', false);
+
+  // @note The depth of the entries in this directory. The top is 1
+  const depth = _.get(options, '_depth', 0) + 1;
+
+  const { isMatched, isIgnored } = _makePathMatcher(options);
+
+  const _prefixDirName = _.get(options, '_prefixDirName', '');
+  const ignoreScopes = _addIgnoreScope(options, _prefixDirName, ignoreRules);
+
+  // @note Marks every entry only with the followSymlinks option
+  const viaSymlink = _.get(options, '_viaSymlink', false);
+  const linkMark = _.get(options, 'followSymlinks', false)
+    ? { viaSymlink }
+    : {};
+
+  const files: FileInfo[] = [];
+  const dirs: DirEntries['dirs'] = [];
+
+  dirents.forEach((dirent) => {
+    const relPath = path.join(_prefixDirName, dirent.name);
+    const isDir =
+      dirent.isDirectory() ||
+      (!excludesSymlink && links.dirNames.includes(dirent.name));
+
+    // @note An ignored directory is not descended into like Git
+    if (_isIgnoredByScopes(ignoreScopes, relPath, isDir)) return;
+
+    // @note A pruned directory is not descended into too
+    if (prune && isDir && isIgnored(relPath, true)) return;
+
+    if (!isDir) {
+      // Filtering
+      if (isOnlyDir) return;
+      if (depth < minDepth) return;
+      if (excludesSymlink && dirent.isSymbolicLink()) return;
+      if (!isMatched(relPath, false)) return;
+
+      files.push({
+        name: dirent.name,
+        relPath,
+        path: path.resolve(dirPath, dirent.name),
+        isDirectory: false,
+        isFile: dirent.isFile(),
+        isSymbolicLink: dirent.isSymbolicLink(),
+        ...linkMark,
+      });
+    } else {
+      // @note
+      // The dirs not listed are also descended into to get their entries
+      dirs.push({
+        fileInfo: {
+          name: dirent.name,
+          relPath,
+          path: path.resolve(dirPath, dirent.name),
+          isDirectory: true,
+          isFile: false,
+          isSymbolicLink: dirent.isSymbolicLink(),
+          ...linkMark,
+        },
+        isListed:
+          !isOnlyFile &&
+          depth >= minDepth &&
+          !(excludesSymlink && dirent.isSymbolicLink()) &&
+          isMatched(relPath, true),
+        isFollowed: dirent.isDirectory() || links.names.includes(dirent.name),
+      });
+    }
+  });
+
+  return {
+    files,
+    dirs,
+    descends: depth < maxDepth,
+    ignoreScopes,
+    depth,
+    ancestors: links.ancestors,
+    viaSymlink,
+  };
+}
+
+/**
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {FileInfo} dir - A sub directory to descend into
+ * @param {DirEntries} entries - The entries of the parent directory
+ * @returns {object} - The options for the sub directory
+ */
+function _subdirOptions(
+  options: object,
+  dir: FileInfo,
+  entries: DirEntries,
+): object {
+  return {
+    ...options,
+    withFileTypes: true,
+    _prefixDirName: dir.relPath,
+    _ignoreScopes: entries.ignoreScopes,
+    _depth: entries.depth,
+    _ancestors: entries.ancestors,
+    _viaSymlink: entries.viaSymlink || dir.isSymbolicLink,
+  };
+}
+
+/**
+ * @typedef {object} WalkError
+ * @property {string} path - The path failed to read
+ * @property {string} relPath - The relative path from the top directory
+ * @property {Error} error - The error. Ex. EACCES, ENOENT
+ */
+export interface WalkError {
+  path: string;
+  relPath: string;
+  error: Error;
+}
+
+/**
+ * @typedef {string|Function} WalkErrorHandler
+ * "throw" | "skip" | (walkError: WalkError) => void
+ */
+export type WalkErrorHandler =
+  | 'throw'
+  | 'skip'
+  | ((walkError: WalkError) => void);
+
+/**
+ * @typedef {object} ReaddirResult
+ * @property {string[]|FileInfo[]} entries - The same as the returned value without the withErrors option
+ * @property {WalkError[]} errors - The errors of the skipped paths
+ */
+export interface ReaddirResult {
+  entries: string[] | FileInfo[];
+  errors: WalkError[];
+}
+
+/**
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {boolean} -
+ */
+function _isValidOnError(options: object): boolean {
+  const onError = _.get(options, 'onError', 'throw');
+  return onError === 'throw' || onError === 'skip' || _.isFunction(onError);
+}
+
+/**
+ * Handles an error while walking with the onError option. Throws the error with "throw", otherwise collects it and calls the handler.
+ *
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @param {object} target - The entry failed to read
+ * @param {string} target.path - The full path
+ * @param {string} target.relPath - The relative path from the top directory
+ * @param {unknown} error -
+ * @returns {void}
+ */
+function _handleWalkError(
+  options: object,
+  errors: WalkError[],
+  target: { path: string; relPath: string },
+  error: unknown,
+): void {
+  const onError = _.get(options, 'onError', 'throw');
+  if (onError === 'throw' || _isAbortError(error)) throw error;
+
+  const walkError = {
+    path: target.path,
+    relPath: target.relPath,
+    error: error as Error,
+  };
+  errors.push(walkError);
+  if (_.isFunction(onError)) onError(walkError);
+}
+
+/**
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {object} - { path, relPath } of the directory
+ */
+function _dirTarget(
+  dirPath: string,
+  options: object,
+): { path: string; relPath: string } {
+  return { path: dirPath, relPath: _.get(options, '_prefixDirName', '') };
+}
 
-  if (a.isDirectory && !b.isDirectory) {
-    comparison = 1;
-  } else if (!a.isDirectory && b.isDirectory) {
-    comparison = -1;
-  } else if (a.relPath > b.relPath) {
-    comparison = 1;
-  } else if (a.relPath < b.relPath) {
-    comparison = -1;
+/**
+ * Handles an error reading the directory. The top directory failing to read always throws, not to be mistaken for an empty directory.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @param {unknown} error -
+ * @returns {void}
+ */
+function _handleDirError(
+  dirPath: string,
+  options: object,
+  errors: WalkError[],
+  error: unknown,
+): void {
+  if (!_.get(options, '_prefixDirName', '')) throw error;
+
+  _handleWalkError(options, errors, _dirTarget(dirPath, options), error);
+}
+
+/**
+ * @typedef {Function} FileInfoFilter
+ * (fileInfo: FileInfo) => boolean | Promise<boolean>. Returning false excludes the entry
+ */
+export type FileInfoFilter = (fileInfo: FileInfo) => boolean | Promise<boolean>;
+
+/**
+ * @private
+ * @param {unknown} date - Date, milliseconds or a date string
+ * @returns {number} - The milliseconds. NaN if invalid
+ */
+function _toTime(date: unknown): number {
+  if (_.isDate(date)) return date.getTime();
+  if (_.isNumber(date)) return date;
+  if (_.isString(date)) return Date.parse(date);
+  return NaN;
+}
+
+/**
+ * @private
+ * @param {unknown} size -
+ * @returns {boolean} -
+ */
+function _isInvalidSize(size: unknown): boolean {
+  return !_.isNumber(size) || Number.isNaN(size) || size < 0;
+}
+
+/**
+ * @private
+ * @param {unknown} date -
+ * @returns {boolean} -
+ */
+function _isInvalidDate(date: unknown): boolean {
+  return Number.isNaN(_toTime(date));
+}
+
+/**
+ * @private
+ * @param {unknown} extensions -
+ * @returns {boolean} -
+ */
+function _isInvalidExtensions(extensions: unknown): boolean {
+  return !_.castArray(extensions).every(_.isString);
+}
+
+/**
+ * @private
+ * @param {unknown} filter -
+ * @returns {boolean} -
+ */
+function _isInvalidFilter(filter: unknown): boolean {
+  return !_.isFunction(filter);
+}
+
+/** @private */
+const ENTRY_FILTER_VALIDATORS: { [name: string]: (val: unknown) => boolean } = {
+  minSize: _isInvalidSize,
+  maxSize: _isInvalidSize,
+  modifiedAfter: _isInvalidDate,
+  modifiedBefore: _isInvalidDate,
+  extensions: _isInvalidExtensions,
+  filter: _isInvalidFilter,
+};
+
+/**
+ * Validates the filtering options with the size, the dates, the extensions and the predicate.
+ *
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {void}
+ */
+function _validateEntryFilters(options: object): void {
+  const invalidName = Object.keys(ENTRY_FILTER_VALIDATORS).find((name) => {
+    const val = _.get(options, name);
+    return !_.isNil(val) && ENTRY_FILTER_VALIDATORS[name](val);
+  });
+
+  if (invalidName) {
+    throw new Error(
+      `${ARG_ERR}${invalidName} is invalid: ${_.get(
+        options,
+        invalidName,
+      )}.${_errLoc(Function)}`,
+    );
   }
+}
 
-  return comparison;
+/**
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {boolean} -
+ */
+function _hasEntryFilters(options: object): boolean {
+  return Object.keys(ENTRY_FILTER_VALIDATORS).some(
+    (name) => !_.isNil(_.get(options, name)),
+  );
+}
+
+/**
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {boolean} -
+ */
+function _filtersWithStats(options: object): boolean {
+  return ['minSize', 'maxSize', 'modifiedAfter', 'modifiedBefore'].some(
+    (name) => !_.isNil(_.get(options, name)),
+  );
+}
+
+/**
+ * @private
+ * @param {FileInfo} fileInfo -
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {boolean} -
+ */
+function _matchesExtensions(fileInfo: FileInfo, options: object): boolean {
+  const extensions = _.get(options, 'extensions');
+  if (_.isNil(extensions)) return true;
+
+  const name = fileInfo.name.toLowerCase();
+  const toSuffix = (ext: string) => `.${ext.replace(/^\./, '')}`.toLowerCase();
+  const suffixes = _.castArray<string>(extensions).map(toSuffix);
+  return suffixes.some((suffix) => name.endsWith(suffix));
+}
+
+/**
+ * @private
+ * @param {fs.Stats} stats -
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {boolean} -
+ */
+function _matchesStats(stats: fs.Stats, options: object): boolean {
+  const minSize = _.get(options, 'minSize');
+  const maxSize = _.get(options, 'maxSize');
+  const modifiedAfter = _.get(options, 'modifiedAfter');
+  const modifiedBefore = _.get(options, 'modifiedBefore');
+  const mtime = stats.mtime.getTime();
+
+  if (!_.isNil(minSize) && stats.size < minSize) return false;
+  if (!_.isNil(maxSize) && stats.size > maxSize) return false;
+  if (!_.isNil(modifiedAfter) && mtime < _toTime(modifiedAfter)) return false;
+  if (!_.isNil(modifiedBefore) && mtime >= _toTime(modifiedBefore)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filters an entry with the size, the dates, the extensions and the filter predicate. The directories are filtered with the predicate only.
+ *
+ * @private
+ * @param {FileInfo} fileInfo -
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @returns {Promise<boolean>} - false if the entry is excluded or failed to read
+ */
+async function _matchesEntryFilters(
+  fileInfo: FileInfo,
+  options: object,
+  errors: WalkError[],
+): Promise<boolean> {
+  if (!_hasEntryFilters(options)) return true;
+
+  try {
+    if (!fileInfo.isDirectory) {
+      if (!_matchesExtensions(fileInfo, options)) return false;
+
+      if (_filtersWithStats(options)) {
+        const stats = await _lstatPromise(fileInfo.path);
+        if (!_matchesStats(stats, options)) return false;
+      }
+    }
+
+    const filter: FileInfoFilter | undefined = _.get(options, 'filter');
+    return filter ? Boolean(await filter(fileInfo)) : true;
+  } catch (e) {
+    _handleWalkError(options, errors, fileInfo, e);
+    return false;
+  }
+}
+
+/**
+ * The synchronous version of _matchesEntryFilters. The filter predicate must return a boolean.
+ *
+ * @private
+ * @param {FileInfo} fileInfo -
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @returns {boolean} - false if the entry is excluded or failed to read
+ */
+function _matchesEntryFiltersSync(
+  fileInfo: FileInfo,
+  options: object,
+  errors: WalkError[],
+): boolean {
+  if (!_hasEntryFilters(options)) return true;
+
+  let isMatched: boolean | Promise<boolean>;
+  try {
+    if (!fileInfo.isDirectory) {
+      if (!_matchesExtensions(fileInfo, options)) return false;
+
+      if (_filtersWithStats(options)) {
+        if (!_matchesStats(fs.lstatSync(fileInfo.path), options)) return false;
+      }
+    }
+
+    const filter: FileInfoFilter | undefined = _.get(options, 'filter');
+    isMatched = filter ? filter(fileInfo) : true;
+  } catch (e) {
+    _handleWalkError(options, errors, fileInfo, e);
+    return false;
+  }
+
+  if (isMatched instanceof Promise) {
+    throw new Error(
+      `${ARG_ERR}filter must return a boolean synchronously.${_errLoc(
+        Function,
+      )}`,
+    );
+  }
+
+  return Boolean(isMatched);
+}
+
+/**
+ * Reads and filters the entries of one directory.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {Promise<DirEntries>} -
+ */
+async function _readDirEntries(
+  dirPath: string,
+  options: object,
+): Promise<DirEntries> {
+  // @note Only the readdir holds a queue slot, so the per-entry reads below can't wait on it
+  const readDir = () => readdirPromise(dirPath, { withFileTypes: true });
+  const dirents = (await _runTask(options, readDir)) as Array<fs.Dirent>;
+
+  const ignoreRules = await _readIgnoreRules(dirPath, dirents, options);
+  const links = await _findLinksToFollow(dirPath, dirents, options);
+  return _filterDirents(dirPath, dirents, ignoreRules, links, options);
+}
+
+/**
+ * The synchronous version of _readDirEntries.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {DirEntries} -
+ */
+function _readDirEntriesSync(dirPath: string, options: object): DirEntries {
+  const dirents = fs.readdirSync(dirPath, {
+    withFileTypes: true,
+  });
+
+  const ignoreRules = _findIgnoreFiles(options, dirents).map((name) =>
+    fs.readFileSync(path.join(dirPath, name), { encoding: 'utf8' }),
+  );
+
+  const links = _findLinksToFollowSync(dirPath, dirents, options);
+  return _filterDirents(dirPath, dirents, ignoreRules, links, options);
+}
+
+/**
+ * Lists the entries of the directory recursively. Not sorting.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @returns {Promise<FileInfo[]>} -
+ */
+async function _walkDirTree(
+  dirPath: string,
+  options: object,
+  errors: WalkError[],
+): Promise<FileInfo[]> {
+  let entries: DirEntries;
+  try {
+    entries = await _readDirEntries(dirPath, options);
+  } catch (e) {
+    _handleDirError(dirPath, options, errors, e);
+    return [];
+  }
+
+  const { files } = entries;
+
+  // Filtering binary files
+  const excludesBinary = _.get(options, 'excludesBinary', false);
+  if (excludesBinary) {
+    const isBinaries = await _mapWithQueue(files, options, async (file) => {
+      if (!file.isFile) return false;
+
+      try {
+        const head = await _readHead(file.path, BINARY_SAMPLE_SIZE);
+        return _isBinaryBuffer(head);
+      } catch (e) {
+        _handleWalkError(options, errors, file, e);
+        return true; // @note Removes the file failed to read
+      }
+    });
+    _.remove(files, (_file, i) => isBinaries[i]);
+  }
+
+  // Filtering with the size, the dates, the extensions and the predicate
+  if (_hasEntryFilters(options)) {
+    const matchesFilters = (file: FileInfo) =>
+      _matchesEntryFilters(file, options, errors);
+    const isMatcheds = await _mapWithQueue(files, options, matchesFilters);
+    _.remove(files, (_file, i) => !isMatcheds[i]);
+  }
+
+  // Get the all of sub directoies files recursively
+  // @note Joined in the order of dirs, not in the order of the completion
+  const dirsBranchesList = await Promise.all(
+    entries.dirs.map(async ({ fileInfo: dir, isListed, isFollowed }) => {
+      let dirBranches: FileInfo[] = [];
+
+      const subDir =
+        entries.descends && isFollowed
+          ? await _walkDirTree(
+              dir.path,
+              _subdirOptions(options, dir, entries),
+              errors,
+            )
+          : [];
+
+      // Filtering the top directory
+      const matchesFilters = () => _matchesEntryFilters(dir, options, errors);
+      if (isListed && (await _runTask(options, matchesFilters))) {
+        dirBranches = dirBranches.concat(dir);
+      }
+
+      if (subDir.length > 0) dirBranches = dirBranches.concat(subDir);
+      return dirBranches;
+    }),
+  );
+  const dirsBranches = _.flatten(dirsBranchesList);
+
+  // Join
+  let rtnFilesInfo: FileInfo[] = [];
+  if (files.length > 0) rtnFilesInfo = rtnFilesInfo.concat(files);
+  if (dirsBranches.length > 0) rtnFilesInfo = rtnFilesInfo.concat(dirsBranches);
+
+  return rtnFilesInfo;
+}
+
+/**
+ * The synchronous version of _walkDirTree.
+ *
+ * @private
+ * @param {string} dirPath - A directory path
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @returns {FileInfo[]} -
+ */
+function _walkDirTreeSync(
+  dirPath: string,
+  options: object,
+  errors: WalkError[],
+): FileInfo[] {
+  let entries: DirEntries;
+  try {
+    entries = _readDirEntriesSync(dirPath, options);
+  } catch (e) {
+    _handleDirError(dirPath, options, errors, e);
+    return [];
+  }
+
+  const { files } = entries;
+
+  // Filtering binary files
+  const excludesBinary = _.get(options, 'excludesBinary', false);
+  if (excludesBinary) {
+    _.remove(files, (file) => {
+      if (!file.isFile) return false;
+
+      try {
+        return _isBinaryBuffer(_readHeadSync(file.path, BINARY_SAMPLE_SIZE));
+      } catch (e) {
+        _handleWalkError(options, errors, file, e);
+        return true; // @note Removes the file failed to read
+      }
+    });
+  }
+
+  // Filtering with the size, the dates, the extensions and the predicate
+  _.remove(files, (file) => !_matchesEntryFiltersSync(file, options, errors));
+
+  // Get the all of sub directories files recursively
+  let dirsBranches: FileInfo[] = [];
+
+  entries.dirs.forEach(({ fileInfo: dir, isListed, isFollowed }) => {
+    const subDir =
+      entries.descends && isFollowed
+        ? _walkDirTreeSync(
+            dir.path,
+            _subdirOptions(options, dir, entries),
+            errors,
+          )
+        : [];
+
+    // Filtering the top directory
+    if (isListed && _matchesEntryFiltersSync(dir, options, errors)) {
+      dirsBranches = dirsBranches.concat(dir);
+    }
+
+    if (subDir.length > 0) dirsBranches = dirsBranches.concat(subDir);
+  });
+
+  // Join
+  let rtnFilesInfo: FileInfo[] = [];
+  if (files.length > 0) rtnFilesInfo = rtnFilesInfo.concat(files);
+  if (dirsBranches.length > 0) rtnFilesInfo = rtnFilesInfo.concat(dirsBranches);
+
+  return rtnFilesInfo;
+}
+
+/**
+ * @private
+ * @typedef {object} StattedEntries
+ * @property {FileInfo[]} fileInfos - The entries stat'ed successfully
+ * @property {fs.Stats[]} stats - The stats of the fileInfos
+ */
+interface StattedEntries {
+  fileInfos: FileInfo[];
+  stats: fs.Stats[];
+}
+
+/**
+ * Stats the entries via the queue of the walking. The entries failed to stat are removed.
+ *
+ * @private
+ * @param {FileInfo[]} fileInfos -
+ * @param {boolean} withStats - If true, adds the stats to the FileInfo
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @returns {Promise<StattedEntries>} -
+ */
+async function _statEntries(
+  fileInfos: FileInfo[],
+  withStats: boolean,
+  options: object,
+  errors: WalkError[],
+): Promise<StattedEntries> {
+  const results = await _mapWithQueue(fileInfos, options, async (file) => {
+    try {
+      const stats = await _lstatPromise(file.path);
+      const fileInfo = withStats ? await _addStats(file, stats) : file;
+      return { fileInfo, stats };
+    } catch (e) {
+      _handleWalkError(options, errors, file, e);
+      return null;
+    }
+  });
+
+  const statted = _.compact(results);
+  return {
+    fileInfos: statted.map((r) => r.fileInfo),
+    stats: statted.map((r) => r.stats),
+  };
+}
+
+/**
+ * The synchronous version of _statEntries.
+ *
+ * @private
+ * @param {FileInfo[]} fileInfos -
+ * @param {boolean} withStats - If true, adds the stats to the FileInfo
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors - The errors of the whole walking
+ * @returns {StattedEntries} -
+ */
+function _statEntriesSync(
+  fileInfos: FileInfo[],
+  withStats: boolean,
+  options: object,
+  errors: WalkError[],
+): StattedEntries {
+  const rtn: StattedEntries = { fileInfos: [], stats: [] };
+
+  fileInfos.forEach((file) => {
+    try {
+      const stats = fs.lstatSync(file.path);
+      const linkStatus = file.isSymbolicLink
+        ? _readLinkStatusSync(file.path)
+        : undefined;
+
+      rtn.fileInfos.push(
+        withStats ? _assignStats(file, stats, linkStatus) : file,
+      );
+      rtn.stats.push(stats);
+    } catch (e) {
+      _handleWalkError(options, errors, file, e);
+    }
+  });
+
+  return rtn;
 }
 
+// @note Overloads to type the returned value with the withErrors option
+export function readdirRecursively(
+  dirPath: string,
+  options: { withErrors: true; [key: string]: unknown },
+): Promise<ReaddirResult>;
+export function readdirRecursively(
+  dirPath: string,
+  options?: object,
+): Promise<string[] | FileInfo[]>;
+
 /**
  * Recursively list all file paths in a directory.
  *
@@ -734,11 +4465,36 @@ function sortFileInfo(a: FileInfo, b: FileInfo): 0 | 1 | -1 {
  * @param {boolean} [options.isOnlyDir=false] - Exacting directories only
  * @param {boolean} [options.isOnlyFile=false] - Exacting files only
  * @param {boolean} [options.excludesSymlink=false] - Excluding symbolic-links
+ * @param {boolean} [options.excludesBinary=false] - Excluding binary files. See {@link API.isBinaryFile}
  * @param {string|RegExp} [options.matchedRegExp] - Ex. "\\d+\\.txt$"
  * @param {string|RegExp} [options.ignoredRegExp] - Ex. "[_\\-.]cache\\d+"
+ * @param {string|string[]} [options.include] - Glob patterns matched on the forward-slash relative path. A pattern starting with "!" excludes. Ex. ["src/**", "!node_modules/**"]
+ * @param {string|string[]} [options.exclude] - Glob patterns to exclude. Ex. "dist/**"
+ * @param {string[]} [options.respectIgnoreFiles] - Names of ignore files to apply while walking. Ex. [".gitignore", ".npmignore"]
+ * @param {number} [options.minDepth=0] - Excluding the entries shallower than this depth. The entries in dirPath are depth 1
+ * @param {number} [options.maxDepth=Infinity] - Not descending into the directories deeper than this depth
+ * @param {boolean} [options.prune=false] - If true, the directories ignored by ignoredRegExp or exclude are not descended into
+ * @param {boolean} [options.followSymlinks=false] - If true, descends into the symbolic-links to directories. The links to the ancestor directories are listed as the directories but not followed. A directory linked from several places is walked via every link
+ * @param {number} [options.minSize] - Excluding the files smaller than this bytes
+ * @param {number} [options.maxSize] - Excluding the files larger than this bytes
+ * @param {Date|number|string} [options.modifiedAfter] - Excluding the files modified before this date
+ * @param {Date|number|string} [options.modifiedBefore] - Excluding the files modified at or after this date
+ * @param {string|string[]} [options.extensions] - Listing only the files with these extensions. Case-insensitive. Ex. ["ts", ".tsx", "d.ts"]
+ * @param {FileInfoFilter} [options.filter] - A predicate called during the walk. Sync or async, but sync only with readdirRecursivelySync. Applied to the directories too, while they are still descended into
+ * @param {WalkErrorHandler} [options.onError="throw"] - "throw" | "skip" | (walkError) => void. With "skip" or a function, the paths failed to read are skipped. The top directory failing to read always rejects
+ * @param {boolean} [options.withErrors=false] - If true, returns { entries, errors }. See {@link ReaddirResult}
+ * @param {number} [options.concurrency=32] - The max number of the file system operations run at once through the whole walking. Only for the async functions
+ * @param {AbortSignal} [options.signal] - Aborts the walking. Rejected with an Error named "AbortError" even with the onError option
+ * @param {FileInfoSortOrder} [options.sort] - "name" | "path" | "dirs-first" | "files-first" | "mtime" | "size" | a comparator of FileInfo. The ties are sorted with the forward-slash relative path
  * @param {boolean} [options.withFileTypes=false] - If true, return fs.Dirent[]
+ * @param {boolean} [options.withStats=false] - If true, adds size, mtime, ctime, birthtime, mode, uid, gid, ino and, for symbolic-links, linkTarget and isBrokenLink to FileInfo. The paths are stat'ed with the concurrency. Implies withFileTypes
  * @param {string} [options._prefixDirName] - @private The internal option
- * @returns {Promise<string[]|FileInfo[]>} - { resolve:string, reject:Error }
+ * @param {IgnoreScope[]} [options._ignoreScopes] - @private The internal option
+ * @param {number} [options._depth] - @private The internal option
+ * @param {string[]} [options._ancestors] - @private The internal option
+ * @param {boolean} [options._viaSymlink] - @private The internal option
+ * @param {TaskQueue} [options._queue] - @private The internal option
+ * @returns {Promise<string[]|FileInfo[]|ReaddirResult>} - { resolve:string, reject:Error }
  * @example
 const { readdirRecursively } = require('@tuckn/fs-hospitality');
 
@@ -860,118 +4616,82 @@ readdirRecursively('D:\\Test', { withFileTypes: true }).then((files) => {
 export async function readdirRecursively(
   dirPath: string,
   options = {},
-): Promise<string[] | FileInfo[]> {
-  // Get the all of top files
-  const dirents = (await readdirPromise(dirPath, {
-    withFileTypes: true,
-  })) as Array<fs.Dirent>;
-
-  // Filtering Options
-  const isOnlyFile = _.get(options, 'isOnlyFile', false);
-  const isOnlyDir = _.get(options, 'isOnlyDir', false);
-  const excludesSymlink = _.get(options, 'excludesSymlink', false);
-
-  const matchedRegExp = _.get(options, 'matchedRegExp', null);
-  let mtchRE: RegExp | null = null;
-  if (matchedRegExp) {
-    if (_.isRegExp(matchedRegExp)) {
-      mtchRE = matchedRegExp;
-    } else {
-      mtchRE = new RegExp(matchedRegExp, 'i');
-    }
-  }
-
-  const ignoredRegExp = _.get(options, 'ignoredRegExp', null);
-  let ignrRE: RegExp | null = null;
-  if (ignoredRegExp) {
-    if (_.isRegExp(ignoredRegExp)) {
-      ignrRE = ignoredRegExp;
-    } else {
-      ignrRE = new RegExp(ignoredRegExp, 'i');
-    }
+): Promise<string[] | FileInfo[] | ReaddirResult> {
+  const sort = _.get(options, 'sort', null);
+  if (!_isValidSortOrder(sort)) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}sort is invalid: ${sort}.${_errLoc(Function)}`),
+    );
   }
 
-  const _prefixDirName = _.get(options, '_prefixDirName', '');
-
-  // let files: string[] | FileInfo[] = [];
-  const files: FileInfo[] = [];
-  const dirs: FileInfo[] = [];
-
-  dirents.forEach((dirent) => {
-    const relPath = path.join(_prefixDirName, dirent.name);
-
-    if (!dirent.isDirectory()) {
-      // Filtering
-      if (isOnlyDir) return;
-      if (excludesSymlink && dirent.isSymbolicLink()) return;
-      if (mtchRE && !mtchRE.test(relPath)) return;
-      if (ignrRE && ignrRE.test(relPath)) return;
-
-      files.push({
-        name: dirent.name,
-        relPath,
-        path: path.resolve(dirPath, dirent.name),
-        isDirectory: false,
-        isFile: dirent.isFile(),
-        isSymbolicLink: dirent.isSymbolicLink(),
-      });
-    } else {
-      // @note
-      // The dires will be filterd after getting subdirectory information
-      dirs.push({
-        name: dirent.name,
-        relPath,
-        path: path.resolve(dirPath, dirent.name),
-        isDirectory: true,
-        isFile: false,
-        isSymbolicLink: dirent.isSymbolicLink(),
-      });
-    }
-  });
-
-  // Get the all of sub directoies files recursively
-  // let dirsBranches: string[] | FileInfo[] = [];
-  let dirsBranches: FileInfo[] = [];
+  if (!_isValidOnError(options)) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}onError is invalid.${_errLoc(Function)}`),
+    );
+  }
 
-  await Promise.all(
-    dirs.map(async (dir) => {
-      const subDir = (await readdirRecursively(dir.path, {
-        ...options,
-        withFileTypes: true,
-        _prefixDirName: dir.relPath,
-      })) as Array<FileInfo>;
+  // @note Rejects with the thrown Error in the async function
+  _validateEntryFilters(options);
 
-      // Filtering the top directory
-      if (
-        !isOnlyFile &&
-        !(excludesSymlink && dir.isSymbolicLink) &&
-        (!mtchRE || (mtchRE && mtchRE.test(dir.relPath))) &&
-        !(ignrRE && ignrRE.test(dir.relPath))
-      ) {
-        dirsBranches = dirsBranches.concat(dir);
-      }
+  const concurrency = _.get(options, 'concurrency', DEFAULT_CONCURRENCY);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    return Promise.reject(
+      new Error(
+        `${ARG_ERR}concurrency is invalid: ${concurrency}.${_errLoc(Function)}`,
+      ),
+    );
+  }
 
-      if (subDir.length > 0) dirsBranches = dirsBranches.concat(subDir);
-    }),
-  );
+  const signal: AbortSignal | null = _.get(options, 'signal', null);
+  if (signal && signal.aborted) return Promise.reject(_createAbortError());
+
+  // @note The queue is shared by the whole walking
+  const walkOptions = {
+    ...options,
+    _queue: _createTaskQueue(concurrency, signal),
+  };
+
+  const errors: WalkError[] = [];
+  let rtnFilesInfo = await _walkDirTree(dirPath, walkOptions, errors);
+
+  // @note withStats implies withFileTypes not to stat for nothing
+  const withStats = _.get(options, 'withStats', false);
+  const withFileTypes = withStats || _.get(options, 'withFileTypes', false);
+
+  // Stat and sort the whole results
+  let stats: fs.Stats[] = [];
+  if (withStats || _sortsWithStats(sort)) {
+    const statted = await _statEntries(
+      rtnFilesInfo,
+      withStats,
+      walkOptions,
+      errors,
+    );
+    rtnFilesInfo = statted.fileInfos;
+    stats = statted.stats;
+  }
 
-  // Join
-  let rtnFilesInfo: FileInfo[] = [];
-  if (files.length > 0) rtnFilesInfo = rtnFilesInfo.concat(files);
-  if (dirsBranches.length > 0) rtnFilesInfo = rtnFilesInfo.concat(dirsBranches);
+  _throwIfAborted(signal);
 
-  // @todo
-  // Sort
-  // files.sort(sortFileInfo);
+  if (sort) rtnFilesInfo = _sortFileInfos(rtnFilesInfo, sort, stats);
 
-  const withFileTypes = _.get(options, 'withFileTypes', false);
-  if (!withFileTypes) {
-    return rtnFilesInfo.map((file) => file.relPath);
-  }
+  const entries = withFileTypes
+    ? rtnFilesInfo
+    : rtnFilesInfo.map((file) => file.relPath);
 
-  return rtnFilesInfo;
+  return _.get(options, 'withErrors', false) ? { entries, errors } : entries;
 }
 
+// @note Overloads to type the returned value with the withErrors option
+export function readdirRecursivelySync(
+  dirPath: string,
+  options: { withErrors: true; [key: string]: unknown },
+): ReaddirResult;
+export function readdirRecursivelySync(
+  dirPath: string,
+  options?: object,
+): string[] | FileInfo[];
+
 /**
  * The synchronous version of this API: readdirRecursivelySync().
  *
@@ -1014,112 +4734,572 @@ console.dir(files);
 export function readdirRecursivelySync(
   dirPath: string,
   options = {},
-): string[] | FileInfo[] {
-  // Get the all of top files
-  const dirents = fs.readdirSync(dirPath, {
-    withFileTypes: true,
-  });
+): string[] | FileInfo[] | ReaddirResult {
+  const sort = _.get(options, 'sort', null);
+  if (!_isValidSortOrder(sort)) {
+    throw new Error(`${ARG_ERR}sort is invalid: ${sort}.${_errLoc(Function)}`);
+  }
 
-  // Filtering Options
-  const isOnlyFile = _.get(options, 'isOnlyFile', false);
-  const isOnlyDir = _.get(options, 'isOnlyDir', false);
-  const excludesSymlink = _.get(options, 'excludesSymlink', false);
+  if (!_isValidOnError(options)) {
+    throw new Error(`${ARG_ERR}onError is invalid.${_errLoc(Function)}`);
+  }
 
-  const matchedRegExp = _.get(options, 'matchedRegExp', null);
-  let mtchRE: RegExp | null = null;
-  if (matchedRegExp) {
-    if (_.isRegExp(matchedRegExp)) {
-      mtchRE = matchedRegExp;
-    } else {
-      mtchRE = new RegExp(matchedRegExp, 'i');
+  _validateEntryFilters(options);
+
+  // @note The signal can be aborted only before running synchronously
+  _throwIfAborted(_.get(options, 'signal', null));
+
+  const errors: WalkError[] = [];
+  let rtnFilesInfo = _walkDirTreeSync(dirPath, options, errors);
+
+  // @note withStats implies withFileTypes not to stat for nothing
+  const withStats = _.get(options, 'withStats', false);
+  const withFileTypes = withStats || _.get(options, 'withFileTypes', false);
+
+  // Stat and sort the whole results
+  let stats: fs.Stats[] = [];
+  if (withStats || _sortsWithStats(sort)) {
+    const statted = _statEntriesSync(rtnFilesInfo, withStats, options, errors);
+    rtnFilesInfo = statted.fileInfos;
+    stats = statted.stats;
+  }
+
+  if (sort) rtnFilesInfo = _sortFileInfos(rtnFilesInfo, sort, stats);
+
+  const entries = withFileTypes
+    ? rtnFilesInfo
+    : rtnFilesInfo.map((file) => file.relPath);
+
+  return _.get(options, 'withErrors', false) ? { entries, errors } : entries;
+}
+
+/**
+ * Filters an entry and adds the stats for walkDir.
+ *
+ * @private
+ * @param {FileInfo} fileInfo -
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @param {WalkError[]} errors -
+ * @returns {Promise<FileInfo|null>} - null if the entry is excluded or failed to read
+ */
+async function _prepareWalkedEntry(
+  fileInfo: FileInfo,
+  options: object,
+  errors: WalkError[],
+): Promise<FileInfo | null> {
+  const excludesBinary = _.get(options, 'excludesBinary', false);
+  const withStats = _.get(options, 'withStats', false);
+
+  // @note The binary files are excluded before the filters like _walkDirTree
+  try {
+    if (excludesBinary && fileInfo.isFile) {
+      const head = await _readHead(fileInfo.path, BINARY_SAMPLE_SIZE);
+      if (_isBinaryBuffer(head)) return null;
     }
+  } catch (e) {
+    _handleWalkError(options, errors, fileInfo, e);
+    return null;
   }
 
-  const ignoredRegExp = _.get(options, 'ignoredRegExp', null);
-  let ignrRE: RegExp | null = null;
-  if (ignoredRegExp) {
-    if (_.isRegExp(ignoredRegExp)) {
-      ignrRE = ignoredRegExp;
-    } else {
-      ignrRE = new RegExp(ignoredRegExp, 'i');
+  if (!(await _matchesEntryFilters(fileInfo, options, errors))) return null;
+
+  try {
+    return withStats ? await _addStats(fileInfo) : fileInfo;
+  } catch (e) {
+    _handleWalkError(options, errors, fileInfo, e);
+    return null;
+  }
+}
+
+/**
+ * The options of readdirRecursively not available with walkDir.
+ *
+ * @private
+ */
+const WALK_DIR_UNSUPPORTED_OPTIONS = ['sort', 'concurrency', 'withErrors'];
+
+/**
+ * Walks the directory recursively and yields FileInfo of the entries one by one. The entries are filtered with the same options as {@link API.readdirRecursively} and yielded in the same order as it without the sort option. The next directory is read only when the next entry is requested, and breaking the loop stops the walking.
+ *
+ * @memberof API
+ * @param {string} dirPath - A directory path
+ * @param {object} [options] - See {@link API.readdirRecursively}. The sort, concurrency and withErrors options throw an Error, and the withFileTypes option is ignored. The withStats option adds the stats to every FileInfo
+ * @yields {FileInfo} - The entries in the order of the walking
+ * @returns {AsyncGenerator<FileInfo>} -
+ * @example
+const { walkDir } = require('@tuckn/fs-hospitality');
+
+(async () => {
+  const walker = walkDir('D:\\MyProject', {
+    exclude: 'node_modules',
+    prune: true,
+  });
+
+  for await (const fileInfo of walker) {
+    if (fileInfo.name === 'package.json') {
+      console.log(fileInfo.path); // D:\MyProject\package.json
+      break; // Stops walking
     }
   }
+})();
+ */
+export async function* walkDir(
+  dirPath: string,
+  options = {},
+): AsyncGenerator<FileInfo> {
+  const unsupported = WALK_DIR_UNSUPPORTED_OPTIONS.find(
+    (key) => _.get(options, key) !== undefined,
+  );
+  if (unsupported) {
+    throw new Error(
+      `${ARG_ERR}${unsupported} is not available with walkDir.${_errLoc(
+        Function,
+      )}`,
+    );
+  }
 
-  const _prefixDirName = _.get(options, '_prefixDirName', '');
+  if (!_isValidOnError(options)) {
+    throw new Error(`${ARG_ERR}onError is invalid.${_errLoc(Function)}`);
+  }
 
-  // let files: string[] | FileInfo[] = [];
-  const files: FileInfo[] = [];
-  const dirs: FileInfo[] = [];
+  _validateEntryFilters(options);
 
-  dirents.forEach((dirent) => {
-    const relPath = path.join(_prefixDirName, dirent.name);
+  // @note The errors are not collected. Use the callback of onError
+  const errors: WalkError[] = [];
+  const signal: AbortSignal | null = _.get(options, 'signal', null);
+  _throwIfAborted(signal);
 
-    if (!dirent.isDirectory()) {
-      // Filtering
-      if (isOnlyDir) return;
-      if (excludesSymlink && dirent.isSymbolicLink()) return;
-      if (mtchRE && !mtchRE.test(relPath)) return;
-      if (ignrRE && ignrRE.test(relPath)) return;
+  let entries: DirEntries;
+  try {
+    entries = await _readDirEntries(dirPath, options);
+  } catch (e) {
+    _handleDirError(dirPath, options, errors, e);
+    return;
+  }
 
-      files.push({
-        name: dirent.name,
-        relPath,
-        path: path.resolve(dirPath, dirent.name),
-        isDirectory: false,
-        isFile: dirent.isFile(),
-        isSymbolicLink: dirent.isSymbolicLink(),
-      });
-    } else {
-      // @note
-      // The dires will be filtered after getting subdirectory information
-      dirs.push({
-        name: dirent.name,
-        relPath,
-        path: path.resolve(dirPath, dirent.name),
-        isDirectory: true,
-        isFile: false,
-        isSymbolicLink: dirent.isSymbolicLink(),
-      });
+  /* eslint-disable no-restricted-syntax, no-await-in-loop */
+  for (const file of entries.files) {
+    _throwIfAborted(signal);
+    const fileInfo = await _prepareWalkedEntry(file, options, errors);
+    if (fileInfo) yield fileInfo;
+  }
+
+  for (const { fileInfo: dir, isListed, isFollowed } of entries.dirs) {
+    _throwIfAborted(signal);
+    if (isListed) {
+      const fileInfo = await _prepareWalkedEntry(dir, options, errors);
+      if (fileInfo) yield fileInfo;
     }
-  });
 
-  // Get the all of sub directories files recursively
-  // let dirsBranches: string[] | FileInfo[] = [];
-  let dirsBranches: FileInfo[] = [];
+    if (entries.descends && isFollowed) {
+      yield* walkDir(dir.path, _subdirOptions(options, dir, entries));
+    }
+  }
+  /* eslint-enable no-restricted-syntax, no-await-in-loop */
+}
+
+/**
+ * @typedef {object} ConvertTextTreeOptions
+ * @readonly
+ * @property {string} [srcEncoding] - An encoding of the source files. If empty, auto-detecting every file
+ * @property {string|RegExp} [matchedRegExp] - See {@link API.readdirRecursively}
+ * @property {string|RegExp} [ignoredRegExp] - See {@link API.readdirRecursively}
+ * @property {boolean} [excludesBinary=true] - See {@link API.readdirRecursively}
+ * @property {TrimAllLinesOption} [trim] - See {@link PrewriteAsTextOptions}
+ * @property {string} [eol] - See {@link PrewriteAsTextOptions}
+ * @property {boolean} [unicodeLineBreaks] - See {@link PrewriteAsTextOptions}
+ * @property {boolean} [bom] - See {@link PrewriteAsTextOptions}
+ * @property {string} [encoding] - An encoding to write. See {@link PrewriteAsTextOptions}
+ */
+export type ConvertTextTreeOptions = PrewriteAsTextOptions & {
+  srcEncoding?: string;
+  matchedRegExp?: string | RegExp;
+  ignoredRegExp?: string | RegExp;
+  excludesBinary?: boolean;
+};
+
+/**
+ * @typedef {object} ConvertTextResult
+ * @property {string} relPath - A relative path from the source directory
+ * @property {string} srcPath - A source file-path
+ * @property {string} destPath - A written file-path
+ * @property {string} srcEncoding - An encoding the source was read with
+ * @property {Error|null} error - An Error when the file failed to convert
+ */
+export interface ConvertTextResult {
+  relPath: string;
+  srcPath: string;
+  destPath: string;
+  srcEncoding: string;
+  error: Error | null;
+}
+
+/**
+ * @private
+ * @param {string} srcDir - A source directory
+ * @param {string} [destDir] - A destination directory
+ * @param {ConvertTextTreeOptions} options - Optional parameters
+ * @returns {object} - Options for readdirRecursively and for writeAsText
+ */
+function _prepareConvertTextTree(
+  srcDir: string,
+  destDir: string | undefined,
+  options: ConvertTextTreeOptions,
+) {
+  if (!srcDir) {
+    throw new Error(`${ARG_ERR}srcDir is empty.${_errLoc(Function)}`);
+  }
 
-  dirs.forEach((dir) => {
-    const subDir = readdirRecursivelySync(dir.path, {
-      ...options,
+  return {
+    readdirOptions: {
+      isOnlyFile: true,
       withFileTypes: true,
-      _prefixDirName: dir.relPath,
-    }) as Array<FileInfo>;
+      matchedRegExp: _.get(options, 'matchedRegExp', null),
+      ignoredRegExp: _.get(options, 'ignoredRegExp', null),
+      excludesBinary: _.get(options, 'excludesBinary', true),
+    },
+    writeOptions: _.pick(options, PREWRITE_OPTION_KEYS),
+    toDestPath: (file: FileInfo) =>
+      destDir ? path.resolve(destDir, file.relPath) : file.path,
+  };
+}
 
-    // Filtering the top directory
-    if (
-      !isOnlyFile &&
-      !(excludesSymlink && dir.isSymbolicLink) &&
-      (!mtchRE || (mtchRE && mtchRE.test(dir.relPath))) &&
-      !(ignrRE && ignrRE.test(dir.relPath))
-    ) {
-      dirsBranches = dirsBranches.concat(dir);
-    }
+/**
+ * Converts every text file in a directory tree with {@link API.readAsText} and {@link API.writeAsText}. Re-encodes, re-EOLs, trims and normalizes BOM in place, or mirrors the tree to the destination directory. Symbolic-links are not converted.
+ *
+ * @memberof API
+ * @param {string} srcDir - A source directory
+ * @param {string} [destDir] - A destination directory. If empty, overwrites the source files
+ * @param {ConvertTextTreeOptions} [options] - Optional parameters
+ * @returns {Promise<ConvertTextResult[]>} - The result of every file
+ * @example
+const { convertTextTree } = require('@tuckn/fs-hospitality');
 
-    if (subDir.length > 0) dirsBranches = dirsBranches.concat(subDir);
+convertTextTree('D:\\Legacy', 'D:\\Converted', {
+  matchedRegExp: '\\.(vbs|wsf|ini)$',
+  ignoredRegExp: '\\\\node_modules\\\\',
+  eol: 'crlf',
+  bom: true,
+  encoding: 'utf8',
+}).then((results) => {
+  results.forEach((r) => {
+    if (r.error) console.error(`${r.relPath}: ${r.error.message}`);
+    else console.log(`${r.relPath}: ${r.srcEncoding} -> utf8`);
   });
+});
+ */
+export async function convertTextTree(
+  srcDir: string,
+  destDir?: string,
+  options: ConvertTextTreeOptions = {},
+): Promise<ConvertTextResult[]> {
+  const { readdirOptions, writeOptions, toDestPath } = _prepareConvertTextTree(
+    srcDir,
+    destDir,
+    options,
+  );
+  const srcEncodingOpt = _.get(options, 'srcEncoding', '');
+
+  const files = (await readdirRecursively(
+    srcDir,
+    readdirOptions,
+  )) as FileInfo[];
+
+  const results: ConvertTextResult[] = [];
+
+  // @note Converts one by one not to open too many files at once
+  await files
+    .filter((file) => file.isFile)
+    .reduce(async (prev, file) => {
+      await prev;
+
+      const result: ConvertTextResult = {
+        relPath: file.relPath,
+        srcPath: file.path,
+        destPath: toDestPath(file),
+        srcEncoding: srcEncodingOpt,
+        error: null,
+      };
+
+      try {
+        const data = await readAsText(file.path, 'binary');
+        if (!result.srcEncoding) result.srcEncoding = detectTextEncoding(data);
+
+        const textData = decodeTextBuffer(data, result.srcEncoding);
+        await writeAsText(result.destPath, textData, writeOptions);
+      } catch (e) {
+        result.error = e as Error;
+      }
 
-  // Join
-  let rtnFilesInfo: FileInfo[] = [];
-  if (files.length > 0) rtnFilesInfo = rtnFilesInfo.concat(files);
-  if (dirsBranches.length > 0) rtnFilesInfo = rtnFilesInfo.concat(dirsBranches);
+      results.push(result);
+    }, Promise.resolve());
+
+  return results;
+}
+
+/**
+ * The synchronous version of this API: convertTextTree().
+ *
+ * @memberof API
+ * @param {string} srcDir - A source directory
+ * @param {string} [destDir] - A destination directory. If empty, overwrites the source files
+ * @param {ConvertTextTreeOptions} [options] - See {@link API.convertTextTree}
+ * @returns {ConvertTextResult[]} - The result of every file
+ * @example
+const { convertTextTreeSync } = require('@tuckn/fs-hospitality');
+
+const results = convertTextTreeSync('D:\\Legacy', '', {
+  trim: 'end',
+  eol: 'lf',
+});
+ */
+export function convertTextTreeSync(
+  srcDir: string,
+  destDir?: string,
+  options: ConvertTextTreeOptions = {},
+): ConvertTextResult[] {
+  const { readdirOptions, writeOptions, toDestPath } = _prepareConvertTextTree(
+    srcDir,
+    destDir,
+    options,
+  );
+  const srcEncodingOpt = _.get(options, 'srcEncoding', '');
+
+  const files = readdirRecursivelySync(srcDir, readdirOptions) as FileInfo[];
+
+  return files
+    .filter((file) => file.isFile)
+    .map((file) => {
+      const result: ConvertTextResult = {
+        relPath: file.relPath,
+        srcPath: file.path,
+        destPath: toDestPath(file),
+        srcEncoding: srcEncodingOpt,
+        error: null,
+      };
+
+      try {
+        const data = readAsTextSync(file.path, 'binary');
+        if (!result.srcEncoding) result.srcEncoding = detectTextEncoding(data);
+
+        const textData = decodeTextBuffer(data, result.srcEncoding);
+        writeAsTextSync(result.destPath, textData, writeOptions);
+      } catch (e) {
+        result.error = e as Error;
+      }
+
+      return result;
+    });
+}
+
+/**
+ * @typedef {object} LinkInfo
+ * @property {string} path - The absolute path of the link
+ * @property {LinkType} type - "symlink" | "hardlink". A junction on Windows is read as "symlink"
+ * @property {string} target - The path written in the link. The same as path for "hardlink"
+ * @property {string} resolvedTarget - The absolute path of the target
+ * @property {boolean} isDangling - Whether the target does not exist
+ * @property {boolean} isDirectory - Whether the target is a directory. false if dangling
+ */
+export interface LinkInfo {
+  path: string;
+  type: LinkType;
+  target: string;
+  resolvedTarget: string;
+  isDangling: boolean;
+  isDirectory: boolean;
+}
 
-  // @todo
-  // Sort
-  // files.sort(sortFileInfo);
+/**
+ * @private
+ * @param {string} linkPath - A path of the link
+ * @param {fs.Stats} lstats - The stats of the link itself
+ * @param {string} linkTarget - The path written in the link. Empty for a hard link
+ * @param {fs.Stats|null} targetStats - The stats of the target. null if not exists
+ * @returns {LinkInfo} -
+ */
+function _toLinkInfo(
+  linkPath: string,
+  lstats: fs.Stats,
+  linkTarget: string,
+  targetStats: fs.Stats | null,
+): LinkInfo {
+  const absPath = path.resolve(linkPath);
+
+  if (lstats.isSymbolicLink()) {
+    return {
+      path: absPath,
+      type: 'symlink',
+      target: linkTarget,
+      resolvedTarget: path.resolve(path.dirname(absPath), linkTarget),
+      isDangling: !targetStats,
+      isDirectory: !!targetStats && targetStats.isDirectory(),
+    };
+  }
 
-  const withFileTypes = _.get(options, 'withFileTypes', false);
-  if (!withFileTypes) {
-    return rtnFilesInfo.map((file) => file.relPath);
+  // @note A file having multiple names is a hard link
+  if (lstats.isFile() && lstats.nlink > 1) {
+    return {
+      path: absPath,
+      type: 'hardlink',
+      target: absPath,
+      resolvedTarget: absPath,
+      isDangling: false,
+      isDirectory: false,
+    };
   }
 
-  return rtnFilesInfo;
+  throw new Error(`${ARG_ERR}${linkPath} is not a link.${_errLoc(Function)}`);
+}
+
+/**
+ * Reads the information of a symbolic-link or a hard link.
+ *
+ * @memberof API
+ * @param {string} linkPath - A path of the link
+ * @returns {Promise<LinkInfo>} -
+ * @example
+const { readLinkInfo } = require('@tuckn/fs-hospitality');
+
+readLinkInfo('/home/tuckn/app/assets').then((linkInfo) => {
+  console.log(linkInfo);
+  // {
+  //   path: '/home/tuckn/app/assets',
+  //   type: 'symlink',
+  //   target: '../shared/assets',
+  //   resolvedTarget: '/home/tuckn/shared/assets',
+  //   isDangling: false,
+  //   isDirectory: true
+  // }
+});
+ */
+export async function readLinkInfo(linkPath: string): Promise<LinkInfo> {
+  if (!linkPath) {
+    return Promise.reject(
+      new Error(`${ARG_ERR}linkPath is empty.${_errLoc(Function)}`),
+    );
+  }
+
+  const lstats = await _lstatPromise(linkPath);
+  if (!lstats.isSymbolicLink()) {
+    return _toLinkInfo(linkPath, lstats, '', null);
+  }
+
+  const { linkTarget } = await _readLinkStatus(linkPath);
+  const targetStats = await _statOrNull(linkPath);
+
+  return _toLinkInfo(linkPath, lstats, linkTarget, targetStats);
+}
+
+/**
+ * The synchronous version of this API: readLinkInfo().
+ *
+ * @memberof API
+ * @param {string} linkPath - A path of the link
+ * @returns {LinkInfo} -
+ * @example
+const { readLinkInfoSync } = require('@tuckn/fs-hospitality');
+
+const linkInfo = readLinkInfoSync('D:\\Test\\DirFoo-Symlink');
+// {
+//   path: 'D:\\Test\\DirFoo-Symlink',
+//   type: 'symlink',
+//   target: 'D:\\Test\\DirFoo',
+//   resolvedTarget: 'D:\\Test\\DirFoo',
+//   isDangling: false,
+//   isDirectory: true
+// }
+ */
+export function readLinkInfoSync(linkPath: string): LinkInfo {
+  if (!linkPath) {
+    throw new Error(`${ARG_ERR}linkPath is empty.${_errLoc(Function)}`);
+  }
+
+  const lstats = fs.lstatSync(linkPath);
+  if (!lstats.isSymbolicLink()) {
+    return _toLinkInfo(linkPath, lstats, '', null);
+  }
+
+  const { linkTarget, isBrokenLink } = _readLinkStatusSync(linkPath);
+  const targetStats = isBrokenLink ? null : fs.statSync(linkPath);
+
+  return _toLinkInfo(linkPath, lstats, linkTarget, targetStats);
+}
+
+/**
+ * @private
+ * @param {object} options - See {@link API.readdirRecursively}
+ * @returns {object} - The options to list the symbolic-links
+ */
+function _findLinksOptions(options: object): object {
+  return { ...options, withFileTypes: true, withErrors: false };
+}
+
+/**
+ * Finds the symbolic-links whose targets do not exist in the directory recursively.
+ *
+ * @memberof API
+ * @param {string} dirPath - A directory path
+ * @param {object} [options] - See {@link API.readdirRecursively}. The withFileTypes and withErrors options are not available
+ * @returns {Promise<LinkInfo[]>} - The broken links in the order of the listing
+ * @example
+const { findBrokenLinks } = require('@tuckn/fs-hospitality');
+
+findBrokenLinks('/home/tuckn/app', {
+  exclude: 'node_modules',
+  prune: true,
+}).then((linkInfos) => {
+  console.log(linkInfos);
+  // [
+  //   {
+  //     path: '/home/tuckn/app/assets',
+  //     type: 'symlink',
+  //     target: '../shared/assets',
+  //     resolvedTarget: '/home/tuckn/shared/assets',
+  //     isDangling: true,
+  //     isDirectory: false
+  //   }
+  // ]
+});
+ */
+export async function findBrokenLinks(
+  dirPath: string,
+  options = {},
+): Promise<LinkInfo[]> {
+  const fileInfos = (await readdirRecursively(
+    dirPath,
+    _findLinksOptions(options),
+  )) as FileInfo[];
+
+  const linkInfos = await Promise.all(
+    fileInfos
+      .filter((fileInfo) => fileInfo.isSymbolicLink)
+      .map((fileInfo) => readLinkInfo(fileInfo.path)),
+  );
+
+  return linkInfos.filter((linkInfo) => linkInfo.isDangling);
+}
+
+/**
+ * The synchronous version of this API: findBrokenLinks().
+ *
+ * @memberof API
+ * @param {string} dirPath - A directory path
+ * @param {object} [options] - See {@link API.readdirRecursively}. The withFileTypes and withErrors options are not available
+ * @returns {LinkInfo[]} - The broken links in the order of the listing
+ * @example
+const { findBrokenLinksSync } = require('@tuckn/fs-hospitality');
+
+const linkInfos = findBrokenLinksSync('D:\\Test');
+ */
+export function findBrokenLinksSync(dirPath: string, options = {}): LinkInfo[] {
+  const fileInfos = readdirRecursivelySync(
+    dirPath,
+    _findLinksOptions(options),
+  ) as FileInfo[];
+
+  return fileInfos
+    .filter((fileInfo) => fileInfo.isSymbolicLink)
+    .map((fileInfo) => readLinkInfoSync(fileInfo.path))
+    .filter((linkInfo) => linkInfo.isDangling);
 }
@@ -1,4 +1,5 @@
 import * as fs from 'fs';
+import * as iconv from 'iconv-lite';
 import * as os from 'os';
 import * as path from 'path';
 import * as rimraf from 'rimraf';
@@ -62,6 +63,134 @@ describe('fs-hospitality', () => {
     });
   });
 
+  test('detectTextEncodingDetailed', () => {
+    const { detectTextEncodingDetailed } = fsh; // shorthand
+
+    const answers = [
+      { file: fileNonText, encoding: 'UTF32' },
+      { file: textSjisDos, encoding: 'SJIS' },
+      { file: textUtf16BeBomDos, encoding: 'UTF-16BE' },
+      { file: textUtf16LeBomDos, encoding: 'UTF-16LE' },
+      { file: textUtf16LeUnix, encoding: 'UTF16' },
+      { file: textUtf8BomDos, encoding: 'UTF-8' },
+      { file: textUtf8Unix, encoding: 'UTF-8' },
+    ];
+
+    answers.forEach((o) => {
+      const detection = detectTextEncodingDetailed(o.file);
+      expect(detection.encoding).toBe(o.encoding);
+      expect(detection.candidates.length).toBeGreaterThan(0);
+      expect(detection.candidates[0].confidence).toBeGreaterThanOrEqual(
+        detection.candidates[detection.candidates.length - 1].confidence,
+      );
+      // Same with detectTextEncoding
+      expect(detection.encoding).toBe(fsh.detectTextEncoding(o.file));
+    });
+
+    // allowed
+    let detection = detectTextEncodingDetailed(textSjisDos, {
+      allowed: ['Shift_JIS'],
+    });
+    expect(['Shift_JIS', 'SJIS']).toContain(detection.encoding);
+    detection.candidates.forEach((c) => {
+      expect(['Shift_JIS', 'SJIS']).toContain(c.encoding);
+    });
+
+    // hints
+    detection = detectTextEncodingDetailed(textUtf8None);
+    expect(detection.encoding).toBe('UTF-8');
+    detection = detectTextEncodingDetailed(textUtf8None, {
+      hints: ['UTF-16'],
+    });
+    expect(detection.encoding).toBe('UTF-8');
+    expect(detection.reason).toBe('highest-confidence');
+    detection = detectTextEncodingDetailed(textUtf16LeUnix, {
+      hints: ['windows-1252'],
+    });
+    expect(detection.encoding).toBe('windows-1252');
+    expect(detection.reason).toBe('hint');
+
+    // sampleSize
+    detection = detectTextEncodingDetailed(textUtf8Unix, { sampleSize: 4 });
+    expect(detection.encoding).not.toBe('UTF-8');
+
+    // Test throwing Errors
+    expect(() => detectTextEncodingDetailed('')).toThrow();
+    expect(() =>
+      detectTextEncodingDetailed(textUtf8Unix, { allowed: ['EBCDIC'] }),
+    ).toThrow();
+  });
+
+  test('isBinaryFile', () => {
+    const answers = [
+      { file: fileNonText, isBinary: true },
+      { file: textSjisDos, isBinary: false },
+      { file: textUtf16BeBomDos, isBinary: false },
+      { file: textUtf16LeBomDos, isBinary: false },
+      { file: textUtf16LeUnix, isBinary: false },
+      { file: textUtf8BomDos, isBinary: false },
+      { file: textUtf8Unix, isBinary: false },
+      { file: textUtf8None, isBinary: false },
+    ];
+
+    answers.forEach((o) => {
+      // file-path
+      expect(fsh.isBinaryFile(o.file)).toBe(o.isBinary);
+      expect(fsh.isTextFile(o.file)).toBe(!o.isBinary);
+      // Buffer
+      const data = fs.readFileSync(o.file);
+      expect(fsh.isBinaryFile(data)).toBe(o.isBinary);
+      expect(fsh.isTextFile(data)).toBe(!o.isBinary);
+    });
+
+    // Magic numbers
+    const pngHead = Buffer.from([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    expect(fsh.isBinaryFile(pngHead)).toBeTruthy();
+    // NUL bytes on both sides
+    const nulMixed = Buffer.from([0x41, 0x00, 0x00, 0x42, 0x43, 0x44]);
+    expect(fsh.isBinaryFile(nulMixed)).toBeTruthy();
+    // NUL bytes on one side but not UTF-16 text
+    const nulControls = Buffer.from([0x41, 0x00, 0x05, 0x00, 0x01, 0x00]);
+    expect(fsh.isBinaryFile(nulControls)).toBeTruthy();
+    // UTF-16 Japanese text without BOM
+    ['こんにちは、世界。\r\n', 'foo=テスト、テスト。\n'].forEach((text) => {
+      const utf16Le = Buffer.from(text.repeat(10), 'utf16le');
+      expect(fsh.isBinaryFile(utf16Le)).toBeFalsy();
+      expect(fsh.isBinaryFile(Buffer.from(utf16Le).swap16())).toBeFalsy();
+    });
+    // Empty
+    expect(fsh.isBinaryFile(Buffer.alloc(0))).toBeFalsy();
+
+    // Test throwing Errors
+    [''].forEach((errVal) => {
+      expect(() => fsh.isBinaryFile(errVal)).toThrow();
+    });
+  });
+
+  test('detectTextBom', () => {
+    const { detectTextBom } = fsh; // shorthand
+
+    expect(detectTextBom(textUtf8BomDos)).toBe('UTF-8');
+    expect(detectTextBom(textUtf16BeBomDos)).toBe('UTF-16BE');
+    expect(detectTextBom(textUtf16LeBomDos)).toBe('UTF-16LE');
+    expect(detectTextBom(textUtf16LeUnix)).toBe('');
+    expect(detectTextBom(textSjisDos)).toBe('');
+    expect(detectTextBom(textUtf8Unix)).toBe('');
+
+    expect(detectTextBom(Buffer.from([0xff, 0xfe, 0x00, 0x00, 0x41]))).toBe(
+      'UTF-32LE',
+    );
+    expect(detectTextBom(Buffer.from([0x00, 0x00, 0xfe, 0xff]))).toBe(
+      'UTF-32BE',
+    );
+    expect(detectTextBom(Buffer.from([]))).toBe('');
+
+    // Test throwing Errors
+    expect(() => detectTextBom('')).toThrow();
+  });
+
   test('decodeTextBuffer', () => {
     const examples = [
       textSjisDos,
@@ -116,6 +245,37 @@ describe('fs-hospitality', () => {
     });
   });
 
+  test('detectTextEolDetailed', () => {
+    const answers = [
+      { file: textSjisDos, dominant: 'crlf' },
+      { file: textUtf16BeBomDos, dominant: 'crlf' },
+      { file: textUtf16LeUnix, dominant: 'lf' },
+      { file: textUtf8Unix, dominant: 'lf' },
+      { file: textUtf8None, dominant: '' },
+    ];
+
+    answers.forEach((o) => {
+      const detection = fsh.detectTextEolDetailed(o.file);
+      expect(detection.dominant).toBe(o.dominant);
+      expect(detection.mixed).toBe(false);
+      expect(fsh.detectTextEolDetailed(fs.readFileSync(o.file))).toEqual(
+        detection,
+      );
+    });
+
+    const mixedText = `${'foo\n'.repeat(999)}bar\r\nbaz\r`;
+    expect(fsh.detectTextEolDetailed(Buffer.from(mixedText))).toEqual({
+      counts: { crlf: 1, lf: 999, cr: 1 },
+      mixed: true,
+      dominant: 'lf',
+    });
+    // detectTextEol reports the first match
+    expect(fsh.detectTextEol(Buffer.from(mixedText))).toBe('crlf');
+
+    // Test throwing Errors
+    expect(() => fsh.detectTextEolDetailed('')).toThrow();
+  });
+
   test('readAsText', async () => {
     const examples = [
       textSjisDos,
@@ -140,6 +300,30 @@ describe('fs-hospitality', () => {
       expect(textData).toStrictEqual(expectedWordStr);
     });
 
+    // As binary
+    const binData = fs.readFileSync(fileNonText);
+    const bufBinary: Buffer = await fsh.readAsText(fileNonText, 'binary');
+    expect(bufBinary).toStrictEqual(binData);
+    const bufRaw: Buffer = await fsh.readAsText(fileNonText, '', { raw: true });
+    expect(bufRaw).toStrictEqual(binData);
+    expect(await fsh.readAsText(binData, 'binary')).toBe(binData);
+    // A non-literal encoding can be "binary" at runtime
+    const encBinary = String('binary');
+    // @ts-expect-error Not typed as a string
+    const bufTyped: string = await fsh.readAsText(fileNonText, encBinary);
+    expect(Buffer.isBuffer(bufTyped)).toBeTruthy();
+
+    // rejectsBinary option
+    await expect(
+      fsh.readAsText(fileNonText, '', { rejectsBinary: true }),
+    ).rejects.toThrow();
+    await expect(
+      fsh.readAsText(fs.readFileSync(fileNonText), '', { rejectsBinary: true }),
+    ).rejects.toThrow();
+    await expect(
+      fsh.readAsText(textSjisDos, '', { rejectsBinary: true }),
+    ).resolves.toStrictEqual(expectedWordStr);
+
     // Test throwing Errors
     await expect(fsh.readAsText('')).rejects.toThrow();
   });
@@ -168,6 +352,27 @@ describe('fs-hospitality', () => {
       expect(textData).toStrictEqual(expectedWordStr);
     });
 
+    // As binary
+    const binData = fs.readFileSync(fileNonText);
+    const bufBinary: Buffer = fsh.readAsTextSync(fileNonText, 'binary');
+    expect(bufBinary).toStrictEqual(binData);
+    const bufRaw: Buffer = fsh.readAsTextSync(fileNonText, '', { raw: true });
+    expect(bufRaw).toStrictEqual(binData);
+    expect(fsh.readAsTextSync(binData, 'binary')).toBe(binData);
+    // A non-literal encoding can be "binary" at runtime
+    const encBinary = String('binary');
+    // @ts-expect-error Not typed as a string
+    const bufTyped: string = fsh.readAsTextSync(fileNonText, encBinary);
+    expect(Buffer.isBuffer(bufTyped)).toBeTruthy();
+
+    // rejectsBinary option
+    expect(() =>
+      fsh.readAsTextSync(fileNonText, '', { rejectsBinary: true }),
+    ).toThrow();
+    expect(
+      fsh.readAsTextSync(textSjisDos, '', { rejectsBinary: true }),
+    ).toStrictEqual(expectedWordStr);
+
     // Test throwing Errors
     expect(() => fsh.readAsTextSync('')).toThrow();
   });
@@ -256,6 +461,13 @@ describe('fs-hospitality', () => {
         lf: 'foo\nbar\nbaz\n\n',
         crlf: 'foo\r\nbar\r\nbaz\r\n\r\n',
       },
+      {
+        str: 'foo\rbar\r\rbaz\n\r',
+        empty: 'foobarbaz',
+        cr: 'foo\rbar\r\rbaz\r\r',
+        lf: 'foo\nbar\n\nbaz\n\n',
+        crlf: 'foo\r\nbar\r\n\r\nbaz\r\n\r\n',
+      },
     ];
 
     argSets.forEach((o) => {
@@ -272,6 +484,24 @@ describe('fs-hospitality', () => {
       expect(fsh.convertEOL(o.str, 'cr')).toBe(o.cr);
       expect(fsh.convertEOL(o.str, 'CR')).toBe(o.cr);
     });
+
+    // Unicode line breaks
+    const strUnicode = 'foo\u2028bar\u2029baz\u0085qux\r\n';
+    expect(fsh.convertEOL(strUnicode, 'lf')).toBe(
+      'foo\u2028bar\u2029baz\u0085qux\n',
+    );
+    expect(
+      fsh.convertEOL(strUnicode, 'crlf', { unicodeLineBreaks: true }),
+    ).toBe('foo\r\nbar\r\nbaz\r\nqux\r\n');
+
+    const tmpPath = fsh.makeTmpPath('', 'test_', '.txt');
+    fsh.writeAsTextSync(tmpPath, strUnicode, {
+      eol: 'lf',
+      unicodeLineBreaks: true,
+    });
+    expect(fs.readFileSync(tmpPath, 'utf8')).toBe('foo\nbar\nbaz\nqux\n');
+    // Clean
+    fs.unlinkSync(tmpPath);
   });
 
   test('makeTmpPath', () => {
@@ -390,6 +620,210 @@ describe('fs-hospitality', () => {
     fs.unlinkSync(tmpPath); // Clean
 
     /** @todo Binary Data */
+
+    // Registered to the cleanup only with keep: false
+    const registeredPath = fsh.writeTmpFileSync('foo', {
+      keep: false,
+      postfix: '.txt',
+    });
+    const keptPath = fsh.writeTmpFileSync('bar');
+    expect(registeredPath).toEqual(expect.stringMatching(/[0-9a-z-]+\.txt$/));
+    expect(fs.readFileSync(keptPath, { encoding: 'utf8' })).toBe('bar');
+
+    const removedPaths = fsh.cleanUpTmpPathsSync();
+    expect(removedPaths).toEqual([registeredPath]);
+    expect(fs.existsSync(registeredPath)).toBeFalsy();
+    expect(fs.existsSync(keptPath)).toBeTruthy();
+    fs.unlinkSync(keptPath); // Clean
+  });
+
+  test('mkTmpDir', async () => {
+    const { mkTmpDir } = fsh; // shorthand
+    const dirTmp = os.tmpdir(); // caching
+
+    const tmpDir = await mkTmpDir({ prefix: 'prefix_' });
+    expect(tmpDir.indexOf(dirTmp) === 0).toBeTruthy();
+    expect(tmpDir).toEqual(expect.stringMatching(/prefix_[0-9a-z-]+$/));
+    expect(fs.statSync(tmpDir).isDirectory()).toBeTruthy();
+
+    // Registers the exit cleanup only once
+    const listenerCount = process.listenerCount('exit');
+    const keptDir = await mkTmpDir({ keep: true });
+    await mkTmpDir();
+    expect(process.listenerCount('exit')).toBe(listenerCount);
+
+    // The kept path is not registered
+    const removedPaths = await fsh.cleanUpTmpPaths();
+    expect(removedPaths).toContain(tmpDir);
+    expect(removedPaths).not.toContain(keptDir);
+    expect(fs.existsSync(tmpDir)).toBeFalsy();
+    expect(fs.existsSync(keptDir)).toBeTruthy();
+
+    fs.rmdirSync(keptDir); // Clean
+  });
+
+  test('mkTmpDirSync', () => {
+    const { mkTmpDirSync } = fsh; // shorthand
+
+    const baseDir = path.join(os.tmpdir(), 'fsh-mkTmpDirSync');
+    const tmpDir = mkTmpDirSync({ baseDir, postfix: '.d' });
+    expect(tmpDir.indexOf(baseDir) === 0).toBeTruthy();
+    expect(tmpDir).toEqual(expect.stringMatching(/[0-9a-z-]+\.d$/));
+    expect(fs.statSync(tmpDir).isDirectory()).toBeTruthy();
+
+    fs.writeFileSync(path.join(tmpDir, 'foo.txt'), 'foo');
+    expect(fsh.cleanUpTmpPathsSync()).toEqual([tmpDir]);
+    expect(fs.existsSync(tmpDir)).toBeFalsy();
+
+    rimraf.sync(baseDir); // Clean
+  });
+
+  test('writeTmpFile', async () => {
+    const { writeTmpFile } = fsh; // shorthand
+
+    const tmpPath = await writeTmpFile(testTextLf);
+    expect(tmpPath.indexOf(os.tmpdir()) === 0).toBeTruthy();
+    expect(fs.readFileSync(tmpPath, { encoding: 'utf8' })).toBe(testTextLf);
+
+    // PrewriteAsTextOptions
+    const sjisPath = await writeTmpFile(testTextLf, {
+      encoding: 'Shift_JIS',
+      eol: 'crlf',
+      postfix: '.txt',
+    });
+    expect(sjisPath).toEqual(expect.stringMatching(/[0-9a-z-]+\.txt$/));
+    expect(fsh.detectTextEncoding(sjisPath)).toBe('SJIS');
+    expect(fsh.detectTextEol(sjisPath)).toBe('crlf');
+    expect(fsh.readAsTextSync(sjisPath)).toBe(testTextCrLf);
+
+    expect(await fsh.cleanUpTmpPaths()).toEqual([tmpPath, sjisPath]);
+    expect(fs.existsSync(tmpPath)).toBeFalsy();
+    expect(fs.existsSync(sjisPath)).toBeFalsy();
+
+    // Test rejecting Errors
+    const noneDirFile = path.join(fileNonText, 'tmp');
+    await expect(
+      writeTmpFile('', { baseDir: noneDirFile, keep: true }),
+    ).rejects.toThrow();
+    expect(await fsh.cleanUpTmpPaths()).toEqual([]);
+  });
+
+  test('withTmpFile', async () => {
+    const { withTmpFile } = fsh; // shorthand
+    let usedPath = '';
+
+    const result = await withTmpFile(
+      testTextLf,
+      (tmpPath) => {
+        usedPath = tmpPath;
+        return fsh.readAsText(tmpPath);
+      },
+      { encoding: 'utf16-le', bom: true },
+    );
+    expect(result).toBe(testTextLf);
+    expect(fs.existsSync(usedPath)).toBeFalsy();
+
+    // Removes the file even if the function throws
+    await expect(
+      withTmpFile('', (tmpPath) => {
+        usedPath = tmpPath;
+        throw new Error('Oops!');
+      }),
+    ).rejects.toThrow('Oops!');
+    expect(fs.existsSync(usedPath)).toBeFalsy();
+    expect(await fsh.cleanUpTmpPaths()).toEqual([]);
+
+    // Test rejecting Errors
+    await expect(
+      withTmpFile('', null as unknown as fsh.TmpPathFunction<void>),
+    ).rejects.toThrow();
+  });
+
+  test('withTmpDir', async () => {
+    const { withTmpDir } = fsh; // shorthand
+    let usedDir = '';
+
+    const names = await withTmpDir(async (tmpDir) => {
+      usedDir = tmpDir;
+      await fsh.writeAsText(path.join(tmpDir, 'sub', 'foo.txt'), 'foo');
+      return fs.readdirSync(tmpDir);
+    });
+    expect(names).toEqual(['sub']);
+    expect(fs.existsSync(usedDir)).toBeFalsy();
+
+    // Removes the directory even if the function rejects
+    await expect(
+      withTmpDir(async (tmpDir) => {
+        usedDir = tmpDir;
+        fs.writeFileSync(path.join(tmpDir, 'bar.txt'), 'bar');
+        throw new Error('Oops!');
+      }),
+    ).rejects.toThrow('Oops!');
+    expect(fs.existsSync(usedDir)).toBeFalsy();
+    expect(await fsh.cleanUpTmpPaths()).toEqual([]);
+
+    // Test rejecting Errors
+    await expect(
+      withTmpDir(null as unknown as fsh.TmpPathFunction<void>),
+    ).rejects.toThrow();
+  });
+
+  test('withTmpFileSync', () => {
+    const { withTmpFileSync } = fsh; // shorthand
+    let usedPath = '';
+
+    const result = withTmpFileSync(
+      testTextLf,
+      (tmpPath) => {
+        usedPath = tmpPath;
+        return fs.readFileSync(tmpPath);
+      },
+      { encoding: 'Shift_JIS', eol: 'crlf', postfix: '.txt' },
+    );
+    expect(usedPath).toEqual(expect.stringMatching(/[0-9a-z-]+\.txt$/));
+    expect(fsh.detectTextEncoding(result)).toBe('SJIS');
+    expect(fsh.readAsTextSync(result)).toBe(testTextCrLf);
+    expect(fs.existsSync(usedPath)).toBeFalsy();
+
+    // Removes the file even if the function throws
+    const throwOops = (tmpPath: string) => {
+      usedPath = tmpPath;
+      throw new Error('Oops!');
+    };
+    expect(() => withTmpFileSync('', throwOops)).toThrow('Oops!');
+    expect(fs.existsSync(usedPath)).toBeFalsy();
+    expect(fsh.cleanUpTmpPathsSync()).toEqual([]);
+
+    // Test throwing Errors
+    const notFunction = null as unknown as (tmpPath: string) => void;
+    expect(() => withTmpFileSync('', notFunction)).toThrow();
+  });
+
+  test('withTmpDirSync', () => {
+    const { withTmpDirSync } = fsh; // shorthand
+    let usedDir = '';
+
+    const names = withTmpDirSync((tmpDir) => {
+      usedDir = tmpDir;
+      fsh.writeAsTextSync(path.join(tmpDir, 'sub', 'foo.txt'), 'foo');
+      return fs.readdirSync(tmpDir);
+    });
+    expect(names).toEqual(['sub']);
+    expect(fs.existsSync(usedDir)).toBeFalsy();
+
+    // Removes the directory even if the function throws
+    const throwOops = (tmpDir: string) => {
+      usedDir = tmpDir;
+      fs.writeFileSync(path.join(tmpDir, 'bar.txt'), 'bar');
+      throw new Error('Oops!');
+    };
+    expect(() => withTmpDirSync(throwOops)).toThrow('Oops!');
+    expect(fs.existsSync(usedDir)).toBeFalsy();
+    expect(fsh.cleanUpTmpPathsSync()).toEqual([]);
+
+    // Test throwing Errors
+    const notFunction = null as unknown as (tmpDir: string) => void;
+    expect(() => withTmpDirSync(notFunction)).toThrow();
   });
 
   test('writeAsText', async () => {
@@ -412,6 +846,97 @@ describe('fs-hospitality', () => {
     // Clean
     rimraf.sync(noneExistingDir);
 
+    // Dry-run
+    const srcData = fs.readFileSync(textSjisDos);
+    const dryPath = fsh.makeTmpPath('', 'test_', '.txt');
+    fs.writeFileSync(dryPath, srcData);
+    const report = await fsh.writeAsText(dryPath, ' foo\nbar ', {
+      trim: 'all',
+      eol: 'lf',
+      bom: true,
+      encoding: 'utf8',
+      dryRun: true,
+      diff: true,
+    });
+    expect(fs.readFileSync(dryPath).equals(srcData)).toBe(true);
+    expect(report.exists).toBe(true);
+    expect(report.changed).toBe(true);
+    expect(report.srcBom).toBe(false);
+    expect(report.destBom).toBe(true);
+    expect(report.srcEols.lf).toBe(0);
+    expect(report.srcEols.crlf).toBeGreaterThan(0);
+    expect(report.destEols).toEqual({ crlf: 0, lf: 1, cr: 0 });
+    expect(report.trimmedLines).toBe(2);
+    expect(report.diff).toContain('+foo');
+    // Clean
+    fs.unlinkSync(dryPath);
+
+    // Atomic writing
+    const atomicPath = fsh.makeTmpPath('', 'test_', '.ini');
+    fs.writeFileSync(atomicPath, 'old');
+    fs.chmodSync(atomicPath, 0o600);
+    await fsh.writeAsText(atomicPath, 'new', { atomic: true, backup: '.bak' });
+    expect(fs.readFileSync(atomicPath, 'utf8')).toBe('new');
+    expect(fs.readFileSync(`${atomicPath}.bak`, 'utf8')).toBe('old');
+    if (os.platform() !== 'win32') {
+      expect(fs.statSync(atomicPath).mode % 0o1000).toBe(0o600);
+    }
+    expect(
+      fs
+        .readdirSync(path.dirname(atomicPath))
+        .filter((f) => f.startsWith(`.${path.basename(atomicPath)}.`)),
+    ).toEqual([]);
+    // Clean
+    fs.unlinkSync(atomicPath);
+    fs.unlinkSync(`${atomicPath}.bak`);
+
+    // Atomic writing to a symbolic link replaces the link target
+    if (os.platform() !== 'win32') {
+      const dirLinked = fsh.makeTmpPath('', 'test_');
+      const srcPath = path.join(dirLinked, 'src.txt');
+      const linkPath = path.join(dirLinked, 'link.txt');
+      fs.mkdirSync(dirLinked);
+      fs.writeFileSync(srcPath, 'old\n');
+      fs.symlinkSync('src.txt', linkPath);
+
+      await fsh.writeAsText(linkPath, 'new\n', {
+        atomic: true,
+        backup: '.bak',
+      });
+      expect(fs.lstatSync(linkPath).isSymbolicLink()).toBe(true);
+      expect(fs.readFileSync(srcPath, 'utf8')).toBe('new\n');
+      expect(fs.lstatSync(`${linkPath}.bak`).isSymbolicLink()).toBe(false);
+      expect(fs.readFileSync(`${linkPath}.bak`, 'utf8')).toBe('old\n');
+      expect(fs.readdirSync(dirLinked).sort()).toEqual([
+        'link.txt',
+        'link.txt.bak',
+        'src.txt',
+      ]);
+      // Clean
+      rimraf.sync(dirLinked);
+    }
+
+    const neReport = await fsh.writeAsText(nePath, 'foo', { dryRun: true });
+    expect(neReport.exists).toBe(false);
+    expect(neReport.changed).toBe(true);
+    expect(neReport.diff).toBe('');
+    expect(fs.existsSync(nePath)).toBe(false);
+
+    // Reports the source instead of the new destination
+    const srcReport = await fsh.writeAsText(nePath, 'foo\nbar\n', {
+      eol: 'lf',
+      dryRun: true,
+      diff: true,
+      srcPath: textSjisDos,
+    });
+    expect(srcReport.srcPath).toBe(textSjisDos);
+    expect(srcReport.destPath).toBe(nePath);
+    expect(srcReport.exists).toBe(false);
+    expect(srcReport.srcEncoding).toBe('SJIS');
+    expect(srcReport.srcEols.crlf).toBeGreaterThan(0);
+    expect(srcReport.diff).toContain(`--- ${textSjisDos}`);
+    expect(fs.existsSync(nePath)).toBe(false);
+
     // Test throwing Errors
     await expect(fsh.writeAsText('')).rejects.toThrow();
   });
@@ -436,10 +961,379 @@ describe('fs-hospitality', () => {
     // Clean
     rimraf.sync(noneExistingDir);
 
+    // Dry-run
+    const dryPath = fsh.makeTmpPath('', 'test_', '.txt');
+    fsh.writeAsTextSync(dryPath, 'foo\r\nbar\r\n', { encoding: 'utf8' });
+    let report = fsh.writeAsTextSync(dryPath, 'foo\r\nbar\r\n', {
+      dryRun: true,
+    });
+    expect(report.changed).toBe(false);
+    expect(report.srcEols).toEqual({ crlf: 2, lf: 0, cr: 0 });
+    expect(report.trimmedLines).toBe(0);
+    report = fsh.writeAsTextSync(dryPath, 'foo\r\nbar\r\n', {
+      eol: 'lf',
+      dryRun: true,
+    });
+    expect(report.changed).toBe(true);
+    expect(report.destEols).toEqual({ crlf: 0, lf: 2, cr: 0 });
+    expect(fs.readFileSync(dryPath, 'utf8')).toBe('foo\r\nbar\r\n');
+
+    // Reports the source instead of the new destination
+    const newPath = fsh.makeTmpPath('', 'test_', '.txt');
+    report = fsh.writeAsTextSync(newPath, 'foo\nbar\n', {
+      eol: 'lf',
+      dryRun: true,
+      srcPath: dryPath,
+    });
+    expect(report.srcPath).toBe(dryPath);
+    expect(report.exists).toBe(false);
+    expect(report.changed).toBe(true);
+    expect(report.srcEols).toEqual({ crlf: 2, lf: 0, cr: 0 });
+    expect(report.destEols).toEqual({ crlf: 0, lf: 2, cr: 0 });
+    expect(fs.existsSync(newPath)).toBe(false);
+    // Clean
+    fs.unlinkSync(dryPath);
+
+    // Atomic writing
+    const atomicPath = fsh.makeTmpPath('', 'test_', '.ini');
+    fsh.writeAsTextSync(atomicPath, 'new', { atomic: true, backup: '.bak' });
+    expect(fs.readFileSync(atomicPath, 'utf8')).toBe('new');
+    expect(fs.existsSync(`${atomicPath}.bak`)).toBe(false);
+    fs.chmodSync(atomicPath, 0o640);
+    fsh.writeAsTextSync(atomicPath, 'newer', {
+      atomic: true,
+      backup: '.bak',
+    });
+    expect(fs.readFileSync(atomicPath, 'utf8')).toBe('newer');
+    expect(fs.readFileSync(`${atomicPath}.bak`, 'utf8')).toBe('new');
+    if (os.platform() !== 'win32') {
+      expect(fs.statSync(atomicPath).mode % 0o1000).toBe(0o640);
+    }
+    // Clean
+    fs.unlinkSync(atomicPath);
+    fs.unlinkSync(`${atomicPath}.bak`);
+
+    // Atomic writing to a symbolic link replaces the link target
+    if (os.platform() !== 'win32') {
+      const dirLinked = fsh.makeTmpPath('', 'test_');
+      const srcPath = path.join(dirLinked, 'src.txt');
+      const linkPath = path.join(dirLinked, 'link.txt');
+      fs.mkdirSync(dirLinked);
+      fs.writeFileSync(srcPath, 'old\n');
+      fs.symlinkSync('src.txt', linkPath);
+
+      fsh.writeAsTextSync(linkPath, 'new\n', { atomic: true, backup: '.bak' });
+      expect(fs.lstatSync(linkPath).isSymbolicLink()).toBe(true);
+      expect(fs.readFileSync(srcPath, 'utf8')).toBe('new\n');
+      expect(fs.readFileSync(`${linkPath}.bak`, 'utf8')).toBe('old\n');
+
+      // The non-atomic backup is also a complete copy
+      fsh.writeAsTextSync(linkPath, 'newer\n', { backup: '.bak' });
+      expect(fs.readFileSync(srcPath, 'utf8')).toBe('newer\n');
+      expect(fs.readFileSync(`${linkPath}.bak`, 'utf8')).toBe('new\n');
+      expect(fs.readdirSync(dirLinked).sort()).toEqual([
+        'link.txt',
+        'link.txt.bak',
+        'src.txt',
+      ]);
+      // Clean
+      rimraf.sync(dirLinked);
+    }
+
     // Test throwing Errors
     expect(() => fsh.writeAsTextSync('')).toThrow();
   });
 
+  test('readTextWithSpec', async () => {
+    let spec = await fsh.readTextWithSpec(textSjisDos);
+    expect(spec.encoding).toBe('SJIS');
+    expect(spec.eol).toBe('crlf');
+    expect(spec.bom).toBe(false);
+    expect(spec.text).toBe(fsh.readAsTextSync(textSjisDos));
+
+    spec = await fsh.readTextWithSpec(textUtf8BomDos);
+    expect(spec.bom).toBe(true);
+
+    spec = fsh.readTextWithSpecSync(textUtf16LeUnix);
+    expect(spec.encoding).toBe(fsh.detectTextEncoding(textUtf16LeUnix));
+    expect(spec.eol).toBe('lf');
+    expect(spec.bom).toBe(false);
+
+    // Test throwing Errors
+    await expect(fsh.readTextWithSpec('')).rejects.toThrow();
+    expect(() => fsh.readTextWithSpecSync('')).toThrow();
+  });
+
+  test('editTextFile', async () => {
+    const examples = [textSjisDos, textUtf8BomDos, textUtf16LeUnix];
+
+    await examples.reduce(async (prev, srcPath) => {
+      await prev;
+      const tmpPath = fsh.makeTmpPath('', 'test_', '.txt');
+      fs.copyFileSync(srcPath, tmpPath);
+
+      const srcSpec = fsh.readTextWithSpecSync(srcPath);
+      await fsh.editTextFile(tmpPath, (text) => `${text}追記\nAdded\n`);
+
+      const expectedText = fsh.convertEOL(
+        `${srcSpec.text}追記\nAdded\n`,
+        srcSpec.eol,
+      );
+      expect(
+        fs.readFileSync(tmpPath).equals(
+          iconv.encode(expectedText, srcSpec.encoding, {
+            addBOM: srcSpec.bom,
+          }),
+        ),
+      ).toBe(true);
+
+      fsh.editTextFileSync(tmpPath, (t) => t.replace('Added', 'Replaced'), {
+        eol: 'crlf',
+      });
+      expect(
+        fs
+          .readFileSync(tmpPath)
+          .equals(
+            iconv.encode(
+              fsh.convertEOL(expectedText.replace('Added', 'Replaced'), 'crlf'),
+              srcSpec.encoding,
+              { addBOM: srcSpec.bom },
+            ),
+          ),
+      ).toBe(true);
+      // Clean
+      fs.unlinkSync(tmpPath);
+    }, Promise.resolve());
+
+    // preserveFrom option
+    const spec = fsh.readTextWithSpecSync(textSjisDos);
+    const tmpPath = fsh.makeTmpPath('', 'test_', '.txt');
+    fsh.writeAsTextSync(tmpPath, 'テスト\n', { preserveFrom: spec });
+    expect(
+      fs.readFileSync(tmpPath).equals(iconv.encode('テスト\r\n', 'SJIS')),
+    ).toBe(true);
+    // Clean
+    fs.unlinkSync(tmpPath);
+
+    // The mixed EOLs are not converted
+    const mixedPath = fsh.makeTmpPath('', 'test_', '.txt');
+    fs.writeFileSync(mixedPath, 'foo\r\nbar\nbaz\r\n');
+    expect(fsh.readTextWithSpecSync(mixedPath).eol).toBe('');
+
+    await fsh.editTextFile(mixedPath, (text) => `${text}qux\n`);
+    expect(fs.readFileSync(mixedPath, 'utf8')).toBe('foo\r\nbar\nbaz\r\nqux\n');
+    // Clean
+    fs.unlinkSync(mixedPath);
+
+    // An ASCII file is preserved as UTF-8 not to lose the added characters
+    const asciiPath = fsh.makeTmpPath('', 'test_', '.ini');
+    fs.writeFileSync(asciiPath, 'foo=1\n');
+    expect(fsh.readTextWithSpecSync(asciiPath).encoding).toBe('utf8');
+
+    fsh.editTextFileSync(asciiPath, (text) => text.replace('1', 'テスト'));
+    expect(fs.readFileSync(asciiPath, 'utf8')).toBe('foo=テスト\n');
+    // Clean
+    fs.unlinkSync(asciiPath);
+
+    // Test throwing Errors
+    await expect(
+      fsh.editTextFile(textSjisDos, null as unknown as fsh.EditTextFunction),
+    ).rejects.toThrow();
+  });
+
+  test('createTextReadStream', async () => {
+    const examples = [
+      textSjisDos,
+      textUtf16BeBomDos,
+      textUtf16LeBomDos,
+      textUtf16LeUnix,
+      textUtf8BomDos,
+      textUtf8Unix,
+    ];
+
+    await Promise.all(
+      examples.map(async (file) => {
+        const optionSets = [
+          // Auto-detecting
+          { highWaterMark: 3 },
+          // Small chunks to split multibyte sequences
+          { encoding: fsh.detectTextEncoding(file), highWaterMark: 3 },
+        ];
+
+        await Promise.all(
+          optionSets.map(async (opt) => {
+            const rs = fsh.createTextReadStream(file, opt);
+
+            let textData = '';
+            // eslint-disable-next-line no-restricted-syntax
+            for await (const chunk of rs) textData += chunk;
+
+            expect(textData).toBe(fsh.readAsTextSync(file));
+          }),
+        );
+      }),
+    );
+
+    // Test throwing Errors
+    expect(() => fsh.createTextReadStream('')).toThrow();
+
+    const rsNoneExisting = fsh.createTextReadStream(fsh.makeTmpPath());
+    await expect(
+      new Promise((resolve, reject) => {
+        rsNoneExisting.on('error', reject);
+        rsNoneExisting.on('end', resolve);
+        rsNoneExisting.resume();
+      }),
+    ).rejects.toThrow();
+  });
+
+  test('createTextWriteStream', async () => {
+    await Promise.all(
+      argSets.map(async (o) => {
+        const tmpPath = fsh.makeTmpPath('', `test_stream_${o.name}`, '.txt');
+        const ws = fsh.createTextWriteStream(tmpPath, o.opt);
+
+        // Split the text at every 3 characters
+        const chunks = o.inputText.match(/[\s\S]{1,3}/g) as string[];
+        await new Promise((resolve, reject) => {
+          ws.on('error', reject);
+          ws.on('finish', resolve);
+          chunks.forEach((chunk) => ws.write(chunk));
+          ws.end();
+        });
+
+        const readData = fs.readFileSync(tmpPath);
+        expect(fsh.detectTextEncoding(readData)).toBe(o.encoding);
+        expect(fsh.detectTextEol(readData)).toBe(o.eol);
+        expect(fsh.readAsTextSync(readData)).toBe(o.outputText);
+        // Clean
+        fs.unlinkSync(tmpPath);
+      }),
+    );
+
+    // Test throwing Errors
+    expect(() => fsh.createTextWriteStream('')).toThrow();
+  });
+
+  test('createLink', async () => {
+    const dirTest = fsh.makeTmpPath('', 'test-createLink_');
+    const dirLinks = path.join(dirTest, 'links');
+    fs.mkdirSync(dirLinks, { recursive: true });
+
+    // Symbolic-links to a directory and a file
+    let link = await fsh.createLink(dirAssets, path.join(dirLinks, 'assets'));
+
+    expect(link).toEqual({
+      type: 'symlink',
+      path: path.join(dirLinks, 'assets'),
+      target: dirAssets,
+      existingPath: dirAssets,
+      isDirectory: true,
+    });
+    expect(fs.lstatSync(link.path).isSymbolicLink()).toBeTruthy();
+    expect(fs.readlinkSync(link.path)).toBe(dirAssets);
+
+    link = await fsh.createLink(fileNonText, path.join(dirLinks, 'bin.ico'), {
+      relative: true,
+    });
+
+    expect(link.isDirectory).toBeFalsy();
+    expect(path.isAbsolute(link.target)).toBeFalsy();
+    expect(fs.readlinkSync(link.path)).toBe(link.target);
+    expect(fs.realpathSync(link.path)).toBe(fs.realpathSync(fileNonText));
+
+    // Hard link
+    const srcFile = path.join(dirTest, 'src.txt');
+    fs.writeFileSync(srcFile, TEST_WORDS_TOP);
+    link = await fsh.createLink(srcFile, path.join(dirTest, 'hard.txt'), {
+      type: 'hardlink',
+    });
+
+    expect(link.target).toBe(srcFile);
+    expect(fs.lstatSync(link.path).isSymbolicLink()).toBeFalsy();
+    expect(fs.statSync(link.path).ino).toBe(fs.statSync(srcFile).ino);
+
+    // Junction is a symbolic-link on POSIX
+    link = await fsh.createLink(dirAssets, path.join(dirLinks, 'junction'), {
+      type: 'junction',
+      relative: true,
+    });
+
+    expect(link.type).toBe('junction');
+    expect(link.target).toBe(dirAssets);
+    expect(fs.lstatSync(link.path).isSymbolicLink()).toBeTruthy();
+
+    // Test throwing Errors
+    const newPath = path.join(dirTest, 'none');
+    await expect(fsh.createLink('', newPath)).rejects.toThrow();
+    await expect(fsh.createLink(srcFile, '')).rejects.toThrow();
+    await expect(
+      fsh.createLink(srcFile, newPath, { type: 'soft' as fsh.LinkType }),
+    ).rejects.toThrow();
+    await expect(
+      fsh.createLink(dirAssets, newPath, { type: 'hardlink' }),
+    ).rejects.toThrow();
+    await expect(
+      fsh.createLink(srcFile, newPath, { type: 'junction' }),
+    ).rejects.toThrow();
+    await expect(
+      fsh.createLink(path.join(dirTest, 'missing'), newPath),
+    ).rejects.toThrow('ENOENT');
+    await expect(fsh.createLink(srcFile, link.path)).rejects.toThrow('EEXIST');
+    expect(fs.existsSync(newPath)).toBeFalsy();
+
+    rimraf.sync(dirTest);
+  });
+
+  test('createLinkSync', () => {
+    const dirTest = fsh.makeTmpPath('', 'test-createLinkSync_');
+    const dirLinks = path.join(dirTest, 'links');
+    fs.mkdirSync(dirLinks, { recursive: true });
+
+    // Symbolic-links to a directory and a file
+    let link = fsh.createLinkSync(dirAssets, path.join(dirLinks, 'assets'), {
+      relative: true,
+    });
+
+    expect(link).toEqual({
+      type: 'symlink',
+      path: path.join(dirLinks, 'assets'),
+      target: path.relative(dirLinks, dirAssets),
+      existingPath: dirAssets,
+      isDirectory: true,
+    });
+    expect(fs.readlinkSync(link.path)).toBe(link.target);
+    expect(fs.readdirSync(link.path)).toEqual(fs.readdirSync(dirAssets));
+
+    link = fsh.createLinkSync(fileNonText, path.join(dirLinks, 'bin.ico'));
+
+    expect(link.isDirectory).toBeFalsy();
+    expect(fs.readlinkSync(link.path)).toBe(fileNonText);
+
+    // Hard link
+    const srcFile = path.join(dirTest, 'src.txt');
+    fs.writeFileSync(srcFile, TEST_WORDS_TOP);
+    link = fsh.createLinkSync(srcFile, path.join(dirTest, 'hard.txt'), {
+      type: 'hardlink',
+    });
+
+    expect(fs.statSync(link.path).ino).toBe(fs.statSync(srcFile).ino);
+
+    // Test throwing Errors
+    const newPath = path.join(dirTest, 'none');
+    expect(() => fsh.createLinkSync('', newPath)).toThrow();
+    expect(() => fsh.createLinkSync(srcFile, '')).toThrow();
+    expect(() => {
+      fsh.createLinkSync(dirAssets, newPath, { type: 'hardlink' });
+    }).toThrow();
+    expect(() => {
+      fsh.createLinkSync(path.join(dirTest, 'missing'), newPath);
+    }).toThrow('ENOENT');
+    expect(fs.existsSync(newPath)).toBeFalsy();
+
+    rimraf.sync(dirTest);
+  });
+
   test('mklink', async () => {
     const pathPairs = [
       { srcPath: dirAssets, destPath: fsh.makeTmpPath() },
@@ -469,6 +1363,32 @@ describe('fs-hospitality', () => {
       }),
     );
 
+    // The paths are never passed to a shell
+    const dirTest = fsh.makeTmpPath('', 'test-mklink_');
+    const injectedPath = path.join(dirTest, 'a" & echo pwned > pwned.txt & "b');
+    fs.mkdirSync(dirTest);
+
+    const link = await fsh.mklink(fileNonText, injectedPath);
+
+    expect(link.path).toBe(injectedPath);
+    expect(fs.lstatSync(injectedPath).isSymbolicLink()).toBeTruthy();
+    expect(fs.readdirSync(dirTest)).toHaveLength(1);
+    expect(fs.existsSync('pwned.txt')).toBeFalsy();
+
+    // Rejected with the Error having code, path and dest
+    await expect(fsh.mklink(fileNonText, injectedPath)).rejects.toMatchObject({
+      code: 'EEXIST',
+      path: fileNonText,
+      dest: injectedPath,
+    });
+    await expect(fsh.mklink('', injectedPath)).rejects.toMatchObject({
+      code: 'ERR_INVALID_ARG_VALUE',
+      path: '',
+      dest: injectedPath,
+    });
+
+    rimraf.sync(dirTest);
+
     // Test throwing Errors
     await Promise.all(
       [''].map(async (errVal) => {
@@ -500,6 +1420,17 @@ describe('fs-hospitality', () => {
       fs.unlinkSync(pair.destPath);
     });
 
+    // Throws the Error having code, path and dest
+    const missingPath = path.join(os.tmpdir(), 'none', 'missing');
+    const newPath = fsh.makeTmpPath();
+    expect(() => fsh.mklinkSync(missingPath, newPath)).toThrow(
+      expect.objectContaining({
+        code: 'ENOENT',
+        path: missingPath,
+        dest: newPath,
+      }),
+    );
+
     // Test throwing Errors
     [''].forEach((errVal) => {
       expect(() => fsh.mklinkSync(errVal, errVal)).toThrow();
@@ -642,6 +1573,74 @@ describe('fs-hospitality', () => {
     return expectingFileObjs;
   };
 
+  type DirentsCallback = (err: Error | null, files: fs.Dirent[]) => void;
+
+  // @note Simulates a permission-denied directory, since the tests may run as root
+  const lockDir = (lockedPath: string): jest.SpyInstance[] => {
+    const fsActual = jest.requireActual<typeof fs>('fs');
+    const { readdir, readdirSync } = fsActual;
+    const denied = (dirPath: string) =>
+      Object.assign(
+        new Error(`EACCES: permission denied, scandir '${dirPath}'`),
+        { code: 'EACCES' },
+      );
+
+    // @note The library reads directories with the withFileTypes option only
+    const mockedReaddir = (
+      dirPath: string,
+      options: { withFileTypes: true },
+      callback: DirentsCallback,
+    ) => {
+      if (dirPath !== lockedPath) return readdir(dirPath, options, callback);
+      return callback(denied(dirPath), []);
+    };
+    const mockedReaddirSync = (
+      dirPath: string,
+      options: { withFileTypes: true },
+    ) => {
+      if (dirPath !== lockedPath) return readdirSync(dirPath, options);
+      throw denied(dirPath);
+    };
+
+    return [
+      jest
+        .spyOn(fsActual, 'readdir')
+        .mockImplementation(mockedReaddir as unknown as typeof readdir),
+      jest
+        .spyOn(fsActual, 'readdirSync')
+        .mockImplementation(mockedReaddirSync as typeof readdirSync),
+    ];
+  };
+
+  type EntryMatcher = (fileObj: fsh.FileInfo, stats: fs.Stats) => boolean;
+  const oldDate = new Date('2000-01-01');
+  const entryFilterCases: Array<[object, EntryMatcher]> = [
+    [{ minSize: 100 }, (_fileObj, stats) => stats.size >= 100],
+    [{ maxSize: 100 }, (_fileObj, stats) => stats.size <= 100],
+    [
+      { modifiedAfter: '2001-01-01' },
+      (_fileObj, stats) => stats.mtime > oldDate,
+    ],
+    [
+      { modifiedBefore: Date.parse('2001-01-01') },
+      (_fileObj, stats) => stats.mtime <= oldDate,
+    ],
+    [
+      { extensions: ['TXT', '.log'] },
+      (fileObj) => /\.(txt|log)$/i.test(fileObj.name),
+    ],
+  ];
+
+  // @note The files are filtered, and the directories are not
+  const filterFileObjs = (
+    fileObjs: fsh.FileInfo[],
+    isMatched: EntryMatcher,
+  ) => {
+    const isListed = (fileObj: fsh.FileInfo) =>
+      fileObj.isDirectory || isMatched(fileObj, fs.lstatSync(fileObj.path));
+    return fileObjs.filter(isListed).map((fileObj) => fileObj.relPath);
+  };
+
   test('readdirRecursively', async () => {
     const dirTest = fsh.makeTmpPath('', 'test-readdirRecursively_');
     const expectingFileObjs = createTestFiles(dirTest);
@@ -742,22 +1741,443 @@ describe('fs-hospitality', () => {
       expect(relPath).not.toMatch(/\.txt$/i);
     });
 
-    // // Test throwing Errors
-    // [''].forEach(async (errVal) => {
-    //   await expect(fsh.readdirRecursively(errVal)).rejects.toThrow();
-    // });
+    // include and exclude options (glob)
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      include: '**/*.txt',
+    })) as Array<string>;
 
-    rimraf.sync(dirTest);
-  });
+    expect(relPaths.sort()).toEqual(
+      [
+        path.join('DirBar', 'DirQuux', 'fileQuux1-Symlink.txt'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1.txt'),
+        path.join('DirBar', 'fileBar1.txt'),
+      ].sort(),
+    );
 
-  test('readdirRecursivelySync', () => {
-    const dirTest = fsh.makeTmpPath('', 'test-readdirRecursivelySync_');
-    const expectingFileObjs = createTestFiles(dirTest);
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      include: ['DirBar/**', '!**/*-Symlink.*'],
+    })) as Array<string>;
 
-    // No options
-    const allRelPaths = fsh.readdirRecursivelySync(dirTest) as Array<string>;
+    expect(relPaths.sort()).toEqual(
+      [
+        'DirBar',
+        path.join('DirBar', 'DirQuux'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1.txt'),
+        path.join('DirBar', 'fileBar1.txt'),
+      ].sort(),
+    );
 
-    expect(allRelPaths).toHaveLength(expectingFileObjs.length);
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      exclude: 'DirBar/**',
+    })) as Array<string>;
+
+    expect(relPaths).toHaveLength(allFileNums - 5);
+    relPaths.forEach((relPath) => {
+      expect(relPath).not.toMatch(/^DirBar/);
+    });
+
+    // excludesBinary option
+    fs.copyFileSync(fileNonText, path.join(dirTest, 'binary.ico'));
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      excludesBinary: true,
+    })) as Array<string>;
+
+    expect(relPaths).toHaveLength(allFileNums);
+    expect(relPaths).not.toContain('binary.ico');
+
+    // respectIgnoreFiles option
+    const dirQuux = path.join(dirTest, 'DirBar', 'DirQuux');
+    fs.writeFileSync(
+      path.join(dirTest, '.gitignore'),
+      '*.log\n!fileRoot2.log\nDirFoo/\n',
+    );
+    fs.writeFileSync(
+      path.join(dirTest, 'DirBar', '.npmignore'),
+      'fileBar1.txt',
+    );
+    fs.writeFileSync(path.join(dirQuux, '.gitignore'), '!keep.log\n');
+    fs.writeFileSync(path.join(dirQuux, 'keep.log'), 'keep');
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      respectIgnoreFiles: ['.gitignore', '.npmignore'],
+    })) as Array<string>;
+
+    expect(relPaths.sort()).toEqual(
+      [
+        '.gitignore',
+        'binary.ico',
+        'DirFoo-Symlink',
+        'FILE_ROOT1.TXT',
+        'fileRoot2.log',
+        'DirBar',
+        path.join('DirBar', '.npmignore'),
+        path.join('DirBar', 'DirQuux'),
+        path.join('DirBar', 'DirQuux', '.gitignore'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1-Symlink.txt'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1.txt'),
+        path.join('DirBar', 'DirQuux', 'keep.log'),
+      ].sort(),
+    );
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      respectIgnoreFiles: ['.gitignore'],
+    })) as Array<string>;
+
+    expect(relPaths).toContain(path.join('DirBar', 'fileBar1.txt'));
+
+    // maxDepth, minDepth and prune options
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      maxDepth: 1,
+    })) as Array<string>;
+
+    expect(relPaths).toContain('DirBar');
+    relPaths.forEach((relPath) => {
+      expect(relPath).not.toContain(path.sep);
+    });
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      minDepth: 2,
+      maxDepth: 2,
+    })) as Array<string>;
+
+    expect(relPaths).toContain(path.join('DirBar', 'DirQuux'));
+    relPaths.forEach((relPath) => {
+      expect(relPath.split(path.sep)).toHaveLength(2);
+    });
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      exclude: 'DirBar',
+    })) as Array<string>;
+
+    expect(relPaths).not.toContain('DirBar');
+    expect(relPaths).toContain(path.join('DirBar', 'fileBar1.txt'));
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      exclude: 'DirBar',
+      prune: true,
+    })) as Array<string>;
+
+    expect(relPaths).toHaveLength(allFileNums - 3);
+    relPaths.forEach((relPath) => {
+      expect(relPath).not.toMatch(/^DirBar/);
+    });
+
+    // sort option
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      sort: 'path',
+    })) as Array<string>;
+
+    const toPosix = (relPath: string) => relPath.split(path.sep).join('/');
+    const posixPaths = relPaths.map(toPosix);
+    expect(posixPaths).toEqual([...posixPaths].sort());
+    expect(relPaths).toEqual(
+      fsh.readdirRecursivelySync(dirTest, { sort: 'path' }),
+    );
+
+    fileObjs = (await fsh.readdirRecursively(dirTest, {
+      sort: 'dirs-first',
+      withFileTypes: true,
+    })) as Array<fsh.FileInfo>;
+
+    expect(fileObjs.slice(0, allDirNums).map((obj) => obj.relPath)).toEqual([
+      'DirBar',
+      path.join('DirBar', 'DirQuux'),
+      'DirFoo',
+    ]);
+
+    fileObjs = (await fsh.readdirRecursively(dirTest, {
+      sort: 'files-first',
+      withFileTypes: true,
+    })) as Array<fsh.FileInfo>;
+
+    expect(fileObjs.slice(-allDirNums).every((obj) => obj.isDirectory)).toBe(
+      true,
+    );
+
+    fs.writeFileSync(path.join(dirTest, 'large.txt'), 'x'.repeat(100000));
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      sort: 'size',
+    })) as Array<string>;
+
+    expect(relPaths[relPaths.length - 1]).toBe('large.txt');
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      isOnlyDir: true,
+      sort: (a: fsh.FileInfo, b: fsh.FileInfo) => b.name.length - a.name.length,
+    })) as Array<string>;
+
+    expect(relPaths).toEqual([
+      path.join('DirBar', 'DirQuux'),
+      'DirBar',
+      'DirFoo',
+    ]);
+
+    // withStats option
+    fs.symlinkSync(
+      path.join(dirTest, 'none.txt'),
+      path.join(dirTest, 'broken-Symlink.txt'),
+    );
+    fileObjs = (await fsh.readdirRecursively(dirTest, {
+      withFileTypes: true,
+      withStats: true,
+    })) as Array<fsh.FileInfo>;
+
+    fileObjs.forEach((fileObj) => {
+      const stats = fs.lstatSync(fileObj.path);
+      expect(fileObj.size).toBe(stats.size);
+      expect(fileObj.mtime).toEqual(stats.mtime);
+      expect(fileObj.mode).toBe(stats.mode);
+      expect(fileObj.ino).toBe(stats.ino);
+
+      if (!fileObj.isSymbolicLink) {
+        expect(fileObj).not.toHaveProperty('linkTarget');
+      } else if (fileObj.name === 'broken-Symlink.txt') {
+        expect(fileObj.isBrokenLink).toBe(true);
+      } else {
+        expect(fileObj.linkTarget).toBe(fs.readlinkSync(fileObj.path));
+        expect(fileObj.isBrokenLink).toBe(false);
+      }
+    });
+
+    // Implies withFileTypes
+    fileObjs = (await fsh.readdirRecursively(dirTest, {
+      withStats: true,
+    })) as Array<fsh.FileInfo>;
+
+    expect(typeof fileObjs[0].size).toBe('number');
+
+    // followSymlinks option
+    const dirLinks = path.join(dirTest, 'DirLinks');
+    fs.mkdirSync(path.join(dirLinks, 'real'), { recursive: true });
+    fs.writeFileSync(path.join(dirLinks, 'real', 'a.txt'), 'a');
+    fs.symlinkSync(path.join(dirLinks, 'real'), path.join(dirLinks, 'link'));
+    fs.symlinkSync(dirLinks, path.join(dirLinks, 'real', 'loop'));
+    fileObjs = (await fsh.readdirRecursively(dirLinks, {
+      followSymlinks: true,
+      withFileTypes: true,
+    })) as Array<fsh.FileInfo>;
+
+    expect(
+      fileObjs.map((obj) => [obj.relPath, obj.isDirectory, obj.viaSymlink]),
+    ).toEqual(
+      expect.arrayContaining([
+        ['link', true, false],
+        [path.join('link', 'a.txt'), false, true],
+        [path.join('link', 'loop'), true, true],
+        [path.join('real', 'a.txt'), false, false],
+        [path.join('real', 'loop'), true, false],
+      ]),
+    );
+    expect(fileObjs).toHaveLength(6);
+
+    // The per-entry stats don't wait for the readdir holding the only slot
+    relPaths = (await fsh.readdirRecursively(dirLinks, {
+      concurrency: 1,
+      followSymlinks: true,
+      respectIgnoreFiles: '.gitignore',
+    })) as Array<string>;
+
+    expect(relPaths).toHaveLength(6);
+
+    fileObjs = (await fsh.readdirRecursively(dirLinks, {
+      withFileTypes: true,
+    })) as Array<fsh.FileInfo>;
+
+    expect(fileObjs).toHaveLength(4);
+    expect(fileObjs[0]).not.toHaveProperty('viaSymlink');
+    rimraf.sync(dirLinks);
+
+    // A directory linked from several places is walked via every link
+    const dirShared = fsh.makeTmpPath('', 'test-shared_');
+    const dirDiamond = path.join(dirTest, 'DirDiamond');
+    fs.mkdirSync(path.join(dirShared, 'B'), { recursive: true });
+    fs.mkdirSync(path.join(dirShared, 'C'), { recursive: true });
+    fs.mkdirSync(dirDiamond);
+    fs.writeFileSync(path.join(dirShared, 'C', 'c.txt'), 'c');
+    ['l1', 'l2'].forEach((name) => {
+      fs.symlinkSync(path.join(dirShared, 'B'), path.join(dirDiamond, name));
+    });
+    ['l3', 'l4'].forEach((name) => {
+      fs.symlinkSync(
+        path.join(dirShared, 'C'),
+        path.join(dirShared, 'B', name),
+      );
+    });
+    fileObjs = (await fsh.readdirRecursively(dirDiamond, {
+      followSymlinks: true,
+      withFileTypes: true,
+    })) as Array<fsh.FileInfo>;
+
+    expect(fileObjs.filter((obj) => obj.name === 'c.txt')).toHaveLength(4);
+    expect(fileObjs.filter((obj) => obj.isDirectory)).toHaveLength(6);
+    expect(fileObjs).toHaveLength(10);
+    expect(fileObjs.map((obj) => obj.relPath)).toEqual(
+      fsh.readdirRecursivelySync(dirDiamond, { followSymlinks: true }),
+    );
+
+    relPaths = (await fsh.readdirRecursively(dirDiamond, {
+      followSymlinks: true,
+      isOnlyFile: true,
+    })) as Array<string>;
+
+    expect(relPaths).toHaveLength(4);
+    rimraf.sync(dirDiamond);
+    rimraf.sync(dirShared);
+
+    const badSort = { sort: 'unknown' } as object;
+    await expect(fsh.readdirRecursively(dirTest, badSort)).rejects.toThrow();
+
+    // onError option
+    const dirBar = path.join(dirTest, 'DirBar');
+    const readableRelPaths = (
+      (await fsh.readdirRecursively(dirTest)) as string[]
+    ).filter((relPath) => !relPath.startsWith(`DirBar${path.sep}`));
+    const spies = lockDir(dirBar);
+
+    await expect(fsh.readdirRecursively(dirTest)).rejects.toThrow('EACCES');
+
+    const walkErrors: fsh.WalkError[] = [];
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      onError: (walkError: fsh.WalkError) => walkErrors.push(walkError),
+    })) as string[];
+
+    expect(relPaths).toEqual(readableRelPaths);
+    expect(walkErrors).toHaveLength(1);
+    expect(walkErrors[0].path).toBe(dirBar);
+    expect(walkErrors[0].relPath).toBe('DirBar');
+    expect(walkErrors[0].error.message).toMatch('EACCES');
+
+    const result = await fsh.readdirRecursively(dirTest, {
+      onError: 'skip',
+      withErrors: true,
+    });
+
+    expect(result.entries).toEqual(readableRelPaths);
+    expect(result.errors).toEqual(walkErrors);
+    spies.forEach((spy) => spy.mockRestore());
+
+    // The top directory failing to read always rejects
+    const topErrors: fsh.WalkError[] = [];
+    const onTopError = (walkError: fsh.WalkError) => topErrors.push(walkError);
+    await expect(
+      fsh.readdirRecursively(path.join(dirTest, 'none'), {
+        onError: onTopError,
+        withErrors: true,
+      }),
+    ).rejects.toThrow('ENOENT');
+    const topSpies = lockDir(dirTest);
+    await expect(
+      fsh.readdirRecursively(dirTest, { onError: 'skip' }),
+    ).rejects.toThrow('EACCES');
+    topSpies.forEach((spy) => spy.mockRestore());
+    expect(topErrors).toEqual([]);
+    const badOnError = { onError: 'unknown' };
+    await expect(fsh.readdirRecursively(dirTest, badOnError)).rejects.toThrow();
+
+    // Filtering with the size, the dates, the extensions and the predicate
+    fs.utimesSync(path.join(dirTest, 'FILE_ROOT1.TXT'), oldDate, oldDate);
+    const unfilteredObjs = (await fsh.readdirRecursively(dirTest, {
+      withFileTypes: true,
+    })) as fsh.FileInfo[];
+
+    await Promise.all(
+      entryFilterCases.map(async ([options, isMatched]) => {
+        relPaths = (await fsh.readdirRecursively(dirTest, options)) as string[];
+
+        expect(relPaths).toEqual(filterFileObjs(unfilteredObjs, isMatched));
+        expect(relPaths.length).toBeLessThan(unfilteredObjs.length);
+      }),
+    );
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      filter: async (fileObj: fsh.FileInfo) => !fileObj.name.startsWith('Dir'),
+    })) as string[];
+
+    expect(relPaths).toEqual(
+      unfilteredObjs
+        .filter((fileObj) => !fileObj.name.startsWith('Dir'))
+        .map((fileObj) => fileObj.relPath),
+    );
+
+    const badMinSize = { minSize: -1 };
+    await expect(fsh.readdirRecursively(dirTest, badMinSize)).rejects.toThrow();
+
+    // concurrency option
+    const fsActual = jest.requireActual<typeof fs>('fs');
+    const { readdir } = fsActual;
+    let running = 0;
+    let maxRunning = 0;
+    const countingReaddir = (
+      dirPath: string,
+      options: { withFileTypes: true },
+      callback: DirentsCallback,
+    ) => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      readdir(dirPath, options, (err, files) => {
+        running -= 1;
+        callback(err, files);
+      });
+    };
+
+    const defaultRelPaths = await fsh.readdirRecursively(dirTest);
+    const readdirSpy = jest
+      .spyOn(fsActual, 'readdir')
+      .mockImplementation(countingReaddir as unknown as typeof readdir);
+
+    relPaths = (await fsh.readdirRecursively(dirTest, {
+      concurrency: 1,
+    })) as string[];
+
+    expect(relPaths).toEqual(defaultRelPaths);
+    expect(maxRunning).toBe(1);
+
+    maxRunning = 0;
+    await fsh.readdirRecursively(dirTest);
+
+    expect(maxRunning).toBeGreaterThan(1);
+    readdirSpy.mockRestore();
+
+    const badConcurrency = { concurrency: 0 };
+    await expect(
+      fsh.readdirRecursively(dirTest, badConcurrency),
+    ).rejects.toThrow();
+
+    // signal option
+    const abortedController = new AbortController();
+    abortedController.abort();
+
+    await expect(
+      fsh.readdirRecursively(dirTest, { signal: abortedController.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+
+    const controller = new AbortController();
+    await expect(
+      fsh.readdirRecursively(dirTest, {
+        onError: 'skip',
+        signal: controller.signal,
+        filter: () => {
+          controller.abort(); // Aborts while walking
+          return true;
+        },
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+
+    // // Test throwing Errors
+    // [''].forEach(async (errVal) => {
+    //   await expect(fsh.readdirRecursively(errVal)).rejects.toThrow();
+    // });
+
+    rimraf.sync(dirTest);
+  });
+
+  test('readdirRecursivelySync', () => {
+    const dirTest = fsh.makeTmpPath('', 'test-readdirRecursivelySync_');
+    const expectingFileObjs = createTestFiles(dirTest);
+
+    // No options
+    const allRelPaths = fsh.readdirRecursivelySync(dirTest) as Array<string>;
+
+    expect(allRelPaths).toHaveLength(expectingFileObjs.length);
 
     expectingFileObjs.forEach((expectObj) => {
       expect(allRelPaths).toEqual(expect.arrayContaining([expectObj.relPath]));
@@ -832,6 +2252,703 @@ describe('fs-hospitality', () => {
       expect(relPath).not.toMatch(/\.txt$/i);
     });
 
+    // include and exclude options (glob)
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      include: '**/*.txt',
+    }) as Array<string>;
+
+    expect(relPaths.sort()).toEqual(
+      [
+        path.join('DirBar', 'DirQuux', 'fileQuux1-Symlink.txt'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1.txt'),
+        path.join('DirBar', 'fileBar1.txt'),
+      ].sort(),
+    );
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      include: ['DirBar/**', '!**/*-Symlink.*'],
+    }) as Array<string>;
+
+    expect(relPaths.sort()).toEqual(
+      [
+        'DirBar',
+        path.join('DirBar', 'DirQuux'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1.txt'),
+        path.join('DirBar', 'fileBar1.txt'),
+      ].sort(),
+    );
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      exclude: 'DirBar/**',
+    }) as Array<string>;
+
+    expect(relPaths).toHaveLength(allFileNums - 5);
+    relPaths.forEach((relPath) => {
+      expect(relPath).not.toMatch(/^DirBar/);
+    });
+
+    // excludesBinary option
+    fs.copyFileSync(fileNonText, path.join(dirTest, 'binary.ico'));
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      excludesBinary: true,
+    }) as Array<string>;
+
+    expect(relPaths).toHaveLength(allFileNums);
+    expect(relPaths).not.toContain('binary.ico');
+
+    // respectIgnoreFiles option
+    const dirQuux = path.join(dirTest, 'DirBar', 'DirQuux');
+    fs.writeFileSync(
+      path.join(dirTest, '.gitignore'),
+      '*.log\n!fileRoot2.log\nDirFoo/\n',
+    );
+    fs.writeFileSync(
+      path.join(dirTest, 'DirBar', '.npmignore'),
+      'fileBar1.txt',
+    );
+    fs.writeFileSync(path.join(dirQuux, '.gitignore'), '!keep.log\n');
+    fs.writeFileSync(path.join(dirQuux, 'keep.log'), 'keep');
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      respectIgnoreFiles: ['.gitignore', '.npmignore'],
+    }) as Array<string>;
+
+    expect(relPaths.sort()).toEqual(
+      [
+        '.gitignore',
+        'binary.ico',
+        'DirFoo-Symlink',
+        'FILE_ROOT1.TXT',
+        'fileRoot2.log',
+        'DirBar',
+        path.join('DirBar', '.npmignore'),
+        path.join('DirBar', 'DirQuux'),
+        path.join('DirBar', 'DirQuux', '.gitignore'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1-Symlink.txt'),
+        path.join('DirBar', 'DirQuux', 'fileQuux1.txt'),
+        path.join('DirBar', 'DirQuux', 'keep.log'),
+      ].sort(),
+    );
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      respectIgnoreFiles: ['.gitignore'],
+    }) as Array<string>;
+
+    expect(relPaths).toContain(path.join('DirBar', 'fileBar1.txt'));
+
+    // maxDepth, minDepth and prune options
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      maxDepth: 1,
+    }) as Array<string>;
+
+    expect(relPaths).toContain('DirBar');
+    relPaths.forEach((relPath) => {
+      expect(relPath).not.toContain(path.sep);
+    });
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      minDepth: 2,
+      maxDepth: 2,
+    }) as Array<string>;
+
+    expect(relPaths).toContain(path.join('DirBar', 'DirQuux'));
+    relPaths.forEach((relPath) => {
+      expect(relPath.split(path.sep)).toHaveLength(2);
+    });
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      exclude: 'DirBar',
+    }) as Array<string>;
+
+    expect(relPaths).not.toContain('DirBar');
+    expect(relPaths).toContain(path.join('DirBar', 'fileBar1.txt'));
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      exclude: 'DirBar',
+      prune: true,
+    }) as Array<string>;
+
+    expect(relPaths).toHaveLength(allFileNums - 3);
+    relPaths.forEach((relPath) => {
+      expect(relPath).not.toMatch(/^DirBar/);
+    });
+
+    // sort option
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      sort: 'path',
+    }) as Array<string>;
+
+    const toPosix = (relPath: string) => relPath.split(path.sep).join('/');
+    const posixPaths = relPaths.map(toPosix);
+    expect(posixPaths).toEqual([...posixPaths].sort());
+    expect(relPaths).toEqual(
+      fsh.readdirRecursivelySync(dirTest, { sort: 'path' }),
+    );
+
+    fileObjs = fsh.readdirRecursivelySync(dirTest, {
+      sort: 'dirs-first',
+      withFileTypes: true,
+    }) as Array<fsh.FileInfo>;
+
+    expect(fileObjs.slice(0, allDirNums).map((obj) => obj.relPath)).toEqual([
+      'DirBar',
+      path.join('DirBar', 'DirQuux'),
+      'DirFoo',
+    ]);
+
+    fileObjs = fsh.readdirRecursivelySync(dirTest, {
+      sort: 'files-first',
+      withFileTypes: true,
+    }) as Array<fsh.FileInfo>;
+
+    expect(fileObjs.slice(-allDirNums).every((obj) => obj.isDirectory)).toBe(
+      true,
+    );
+
+    fs.writeFileSync(path.join(dirTest, 'large.txt'), 'x'.repeat(100000));
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      sort: 'size',
+    }) as Array<string>;
+
+    expect(relPaths[relPaths.length - 1]).toBe('large.txt');
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      isOnlyDir: true,
+      sort: (a: fsh.FileInfo, b: fsh.FileInfo) => b.name.length - a.name.length,
+    }) as Array<string>;
+
+    expect(relPaths).toEqual([
+      path.join('DirBar', 'DirQuux'),
+      'DirBar',
+      'DirFoo',
+    ]);
+
+    // withStats option
+    fs.symlinkSync(
+      path.join(dirTest, 'none.txt'),
+      path.join(dirTest, 'broken-Symlink.txt'),
+    );
+    fileObjs = fsh.readdirRecursivelySync(dirTest, {
+      withFileTypes: true,
+      withStats: true,
+    }) as Array<fsh.FileInfo>;
+
+    fileObjs.forEach((fileObj) => {
+      const stats = fs.lstatSync(fileObj.path);
+      expect(fileObj.size).toBe(stats.size);
+      expect(fileObj.mtime).toEqual(stats.mtime);
+      expect(fileObj.mode).toBe(stats.mode);
+      expect(fileObj.ino).toBe(stats.ino);
+
+      if (!fileObj.isSymbolicLink) {
+        expect(fileObj).not.toHaveProperty('linkTarget');
+      } else if (fileObj.name === 'broken-Symlink.txt') {
+        expect(fileObj.isBrokenLink).toBe(true);
+      } else {
+        expect(fileObj.linkTarget).toBe(fs.readlinkSync(fileObj.path));
+        expect(fileObj.isBrokenLink).toBe(false);
+      }
+    });
+
+    // Implies withFileTypes
+    fileObjs = fsh.readdirRecursivelySync(dirTest, {
+      withStats: true,
+    }) as Array<fsh.FileInfo>;
+
+    expect(typeof fileObjs[0].size).toBe('number');
+
+    // followSymlinks option
+    const dirLinks = path.join(dirTest, 'DirLinks');
+    fs.mkdirSync(path.join(dirLinks, 'real'), { recursive: true });
+    fs.writeFileSync(path.join(dirLinks, 'real', 'a.txt'), 'a');
+    fs.symlinkSync(path.join(dirLinks, 'real'), path.join(dirLinks, 'link'));
+    fs.symlinkSync(dirLinks, path.join(dirLinks, 'real', 'loop'));
+    fileObjs = fsh.readdirRecursivelySync(dirLinks, {
+      followSymlinks: true,
+      withFileTypes: true,
+    }) as Array<fsh.FileInfo>;
+
+    expect(
+      fileObjs.map((obj) => [obj.relPath, obj.isDirectory, obj.viaSymlink]),
+    ).toEqual(
+      expect.arrayContaining([
+        ['link', true, false],
+        [path.join('link', 'a.txt'), false, true],
+        [path.join('link', 'loop'), true, true],
+        [path.join('real', 'a.txt'), false, false],
+        [path.join('real', 'loop'), true, false],
+      ]),
+    );
+    expect(fileObjs).toHaveLength(6);
+
+    fileObjs = fsh.readdirRecursivelySync(dirLinks, {
+      withFileTypes: true,
+    }) as Array<fsh.FileInfo>;
+
+    expect(fileObjs).toHaveLength(4);
+    expect(fileObjs[0]).not.toHaveProperty('viaSymlink');
+    rimraf.sync(dirLinks);
+
+    // A directory linked from several places is walked via every link
+    const dirShared = fsh.makeTmpPath('', 'test-shared_');
+    const dirDiamond = path.join(dirTest, 'DirDiamond');
+    fs.mkdirSync(path.join(dirShared, 'B'), { recursive: true });
+    fs.mkdirSync(path.join(dirShared, 'C'), { recursive: true });
+    fs.mkdirSync(dirDiamond);
+    fs.writeFileSync(path.join(dirShared, 'C', 'c.txt'), 'c');
+    ['l1', 'l2'].forEach((name) => {
+      fs.symlinkSync(path.join(dirShared, 'B'), path.join(dirDiamond, name));
+    });
+    ['l3', 'l4'].forEach((name) => {
+      fs.symlinkSync(
+        path.join(dirShared, 'C'),
+        path.join(dirShared, 'B', name),
+      );
+    });
+    fileObjs = fsh.readdirRecursivelySync(dirDiamond, {
+      followSymlinks: true,
+      withFileTypes: true,
+    }) as Array<fsh.FileInfo>;
+
+    expect(fileObjs.filter((obj) => obj.name === 'c.txt')).toHaveLength(4);
+    expect(fileObjs.filter((obj) => obj.isDirectory)).toHaveLength(6);
+    expect(fileObjs).toHaveLength(10);
+    rimraf.sync(dirDiamond);
+    rimraf.sync(dirShared);
+
+    const badSort = { sort: 'unknown' } as object;
+    expect(() => fsh.readdirRecursivelySync(dirTest, badSort)).toThrow();
+
+    // onError option
+    const dirBar = path.join(dirTest, 'DirBar');
+    const readableRelPaths = (
+      fsh.readdirRecursivelySync(dirTest) as string[]
+    ).filter((relPath) => !relPath.startsWith(`DirBar${path.sep}`));
+    const spies = lockDir(dirBar);
+
+    expect(() => fsh.readdirRecursivelySync(dirTest)).toThrow('EACCES');
+
+    const walkErrors: fsh.WalkError[] = [];
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      onError: (walkError: fsh.WalkError) => walkErrors.push(walkError),
+    }) as string[];
+
+    expect(relPaths).toEqual(readableRelPaths);
+    expect(walkErrors).toHaveLength(1);
+    expect(walkErrors[0].path).toBe(dirBar);
+    expect(walkErrors[0].relPath).toBe('DirBar');
+
+    const result = fsh.readdirRecursivelySync(dirTest, {
+      onError: 'skip',
+      withErrors: true,
+    });
+
+    expect(result.entries).toEqual(readableRelPaths);
+    expect(result.errors).toEqual(walkErrors);
+    spies.forEach((spy) => spy.mockRestore());
+
+    // The top directory failing to read always throws
+    const topErrors: fsh.WalkError[] = [];
+    const onTopError = (walkError: fsh.WalkError) => topErrors.push(walkError);
+    const readNone = () =>
+      fsh.readdirRecursivelySync(path.join(dirTest, 'none'), {
+        onError: onTopError,
+        withErrors: true,
+      });
+    expect(readNone).toThrow('ENOENT');
+    const topSpies = lockDir(dirTest);
+    const readLocked = () =>
+      fsh.readdirRecursivelySync(dirTest, { onError: 'skip' });
+    expect(readLocked).toThrow('EACCES');
+    topSpies.forEach((spy) => spy.mockRestore());
+    expect(topErrors).toEqual([]);
+    const badOnError = { onError: 'unknown' };
+    expect(() => fsh.readdirRecursivelySync(dirTest, badOnError)).toThrow();
+
+    // Filtering with the size, the dates, the extensions and the predicate
+    fs.utimesSync(path.join(dirTest, 'FILE_ROOT1.TXT'), oldDate, oldDate);
+    const unfilteredObjs = fsh.readdirRecursivelySync(dirTest, {
+      withFileTypes: true,
+    }) as fsh.FileInfo[];
+
+    entryFilterCases.forEach(([options, isMatched]) => {
+      relPaths = fsh.readdirRecursivelySync(dirTest, options) as string[];
+
+      expect(relPaths).toEqual(filterFileObjs(unfilteredObjs, isMatched));
+      expect(relPaths.length).toBeLessThan(unfilteredObjs.length);
+    });
+
+    relPaths = fsh.readdirRecursivelySync(dirTest, {
+      filter: (fileObj: fsh.FileInfo) => !fileObj.name.startsWith('Dir'),
+    }) as string[];
+
+    expect(relPaths).toEqual(
+      unfilteredObjs
+        .filter((fileObj) => !fileObj.name.startsWith('Dir'))
+        .map((fileObj) => fileObj.relPath),
+    );
+
+    const asyncFilter = { filter: async () => true };
+    expect(() => fsh.readdirRecursivelySync(dirTest, asyncFilter)).toThrow();
+    const badDate = { modifiedAfter: 'unknown' };
+    expect(() => fsh.readdirRecursivelySync(dirTest, badDate)).toThrow();
+
+    // signal option
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => {
+      fsh.readdirRecursivelySync(dirTest, { signal: controller.signal });
+    }).toThrow('aborted');
+
+    rimraf.sync(dirTest);
+  });
+
+  const createTextTree = (dirTest: string): string[] => {
+    const srcFiles = [
+      textSjisDos,
+      textUtf16LeBomDos,
+      textUtf16LeUnix,
+      textUtf8Unix,
+    ];
+    const relPaths = srcFiles.map((file, i) =>
+      path.join(i % 2 ? 'sub' : '', path.basename(file)),
+    );
+
+    fs.mkdirSync(path.join(dirTest, 'sub'), { recursive: true });
+    srcFiles.forEach((file, i) => {
+      fs.copyFileSync(file, path.join(dirTest, relPaths[i]));
+    });
+    fs.copyFileSync(fileNonText, path.join(dirTest, 'sub', 'binary.ico'));
+
+    return relPaths;
+  };
+
+  test('walkDir', async () => {
+    const dirTest = fsh.makeTmpPath('', 'test-walkDir_');
+    createTextTree(dirTest);
+    fs.mkdirSync(path.join(dirTest, 'sub', 'deep'));
+    fs.writeFileSync(path.join(dirTest, 'sub', 'deep', 'deep.txt'), 'deep');
+
+    const walk = async (options = {}) => {
+      const fileObjs: fsh.FileInfo[] = [];
+      // eslint-disable-next-line no-restricted-syntax
+      for await (const fileObj of fsh.walkDir(dirTest, options)) {
+        fileObjs.push(fileObj);
+      }
+      return fileObjs;
+    };
+
+    // The same entries in the same order as readdirRecursively
+    await Promise.all(
+      [
+        {},
+        { isOnlyFile: true, excludesBinary: true },
+        { exclude: 'sub/deep', prune: true },
+        { maxDepth: 2, minDepth: 2 },
+        {
+          extensions: 'txt',
+          filter: async (fileObj: fsh.FileInfo) => fileObj.name !== 'deep.txt',
+        },
+      ].map(async (options) => {
+        expect(await walk(options)).toEqual(
+          await fsh.readdirRecursively(dirTest, {
+            ...options,
+            withFileTypes: true,
+          }),
+        );
+      }),
+    );
+
+    // The filter is not called with the binary files like readdirRecursively
+    const filteredNames: string[] = [];
+    await walk({
+      excludesBinary: true,
+      filter: (fileObj: fsh.FileInfo) => filteredNames.push(fileObj.name) > 0,
+    });
+    expect(filteredNames).not.toContain('binary.ico');
+
+    // withStats option
+    const fileObjs = await walk({ withStats: true });
+    fileObjs.forEach((fileObj) => {
+      expect(fileObj.size).toBe(fs.lstatSync(fileObj.path).size);
+    });
+
+    // signal option
+    const controller = new AbortController();
+    const walkedObjs: fsh.FileInfo[] = [];
+    const walkAborted = async () => {
+      // eslint-disable-next-line no-restricted-syntax
+      for await (const fileObj of fsh.walkDir(dirTest, {
+        signal: controller.signal,
+      })) {
+        walkedObjs.push(fileObj);
+        controller.abort(); // Aborts while walking
+      }
+    };
+
+    await expect(walkAborted()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(walkedObjs).toHaveLength(1);
+
+    // Stops walking with break
+    const walker = fsh.walkDir(dirTest);
+    const first = await walker.next();
+    expect(first.done).toBe(false);
+    expect(await walker.return(undefined)).toEqual({
+      done: true,
+      value: undefined,
+    });
+    expect((await walker.next()).done).toBe(true);
+
+    // onError option
+    const walkErrors: fsh.WalkError[] = [];
+    const spies = lockDir(path.join(dirTest, 'sub'));
+
+    expect(
+      await walk({
+        onError: (walkError: fsh.WalkError) => walkErrors.push(walkError),
+      }),
+    ).toEqual(
+      await fsh.readdirRecursively(dirTest, {
+        withFileTypes: true,
+        onError: 'skip',
+      }),
+    );
+    expect(walkErrors).toHaveLength(1);
+    expect(walkErrors[0].relPath).toBe('sub');
+    spies.forEach((spy) => spy.mockRestore());
+
+    // Test throwing Errors
+    await expect(
+      fsh.walkDir(path.join(dirTest, 'none')).next(),
+    ).rejects.toThrow();
+    await expect(
+      fsh.walkDir(path.join(dirTest, 'none'), { onError: 'skip' }).next(),
+    ).rejects.toThrow('ENOENT');
+    await Promise.all(
+      [{ sort: 'name' }, { concurrency: 4 }, { withErrors: true }].map(
+        async (options) => {
+          await expect(fsh.walkDir(dirTest, options).next()).rejects.toThrow();
+        },
+      ),
+    );
+
+    rimraf.sync(dirTest);
+  });
+
+  test('convertTextTree', async () => {
+    const dirTest = fsh.makeTmpPath('', 'test-convertTextTree_');
+    const dirDest = fsh.makeTmpPath('', 'test-convertTextTree-dest_');
+    const relPaths = createTextTree(dirTest);
+
+    // Mirror to the destination
+    let results = await fsh.convertTextTree(dirTest, dirDest, {
+      eol: 'crlf',
+      encoding: 'utf8',
+    });
+
+    expect(results).toHaveLength(relPaths.length);
+    results.forEach((r) => {
+      expect(r.error).toBeNull();
+      expect(relPaths).toContain(r.relPath);
+      expect(r.destPath).toBe(path.join(dirDest, r.relPath));
+
+      const readData = fs.readFileSync(r.destPath);
+      expect(fsh.detectTextEncoding(readData)).toBe('UTF-8');
+      expect(fsh.detectTextEol(readData)).toBe('crlf');
+      expect(fsh.readAsTextSync(readData)).toBe(
+        fsh.convertEOL(fsh.readAsTextSync(r.srcPath), 'crlf'),
+      );
+    });
+    expect(fs.existsSync(path.join(dirDest, 'sub', 'binary.ico'))).toBeFalsy();
+
+    // In place with the filter
+    results = await fsh.convertTextTree(dirTest, '', {
+      matchedRegExp: 'sjis',
+      encoding: 'utf16-le',
+      bom: true,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].srcEncoding).toBe('SJIS');
+    expect(results[0].destPath).toBe(results[0].srcPath);
+    expect(fsh.detectTextEncoding(results[0].srcPath)).toBe('UTF-16LE');
+
+    // Test throwing Errors
+    await expect(fsh.convertTextTree('')).rejects.toThrow();
+
+    rimraf.sync(dirTest);
+    rimraf.sync(dirDest);
+  });
+
+  test('convertTextTreeSync', () => {
+    const dirTest = fsh.makeTmpPath('', 'test-convertTextTreeSync_');
+    const relPaths = createTextTree(dirTest);
+
+    // In place
+    const results = fsh.convertTextTreeSync(dirTest, undefined, {
+      trim: 'all',
+      eol: 'lf',
+    });
+
+    expect(results).toHaveLength(relPaths.length);
+    results.forEach((r) => {
+      expect(r.error).toBeNull();
+      expect(r.destPath).toBe(r.srcPath);
+
+      const readData = fs.readFileSync(r.destPath);
+      expect(fsh.detectTextEncoding(readData)).toBe('UTF-8');
+      expect(fsh.detectTextEol(readData)).toBe('lf');
+    });
+
+    // Test throwing Errors
+    expect(() => fsh.convertTextTreeSync('')).toThrow();
+
+    rimraf.sync(dirTest);
+  });
+
+  const createLinkTree = (dirTest: string): void => {
+    /*
+     * @note A structure to test
+      %TEMP%test-xxxxx/
+      │  file.txt
+      │  file-hard.txt (hard link of file.txt)
+      │  file-Symlink.txt -> file.txt
+      │  lost-Symlink.txt -> lost.txt (broken)
+      │
+      └─sub
+            dir-Symlink -> ../sub2 (broken)
+            abs-Symlink -> %TEMP%test-xxxxx/sub
+     */
+    const dirSub = path.join(dirTest, 'sub');
+    fs.mkdirSync(dirSub, { recursive: true });
+    fs.writeFileSync(path.join(dirTest, 'file.txt'), TEST_WORDS_TOP);
+    fs.linkSync(
+      path.join(dirTest, 'file.txt'),
+      path.join(dirTest, 'file-hard.txt'),
+    );
+    fs.symlinkSync('file.txt', path.join(dirTest, 'file-Symlink.txt'));
+    fs.symlinkSync('lost.txt', path.join(dirTest, 'lost-Symlink.txt'));
+    fs.symlinkSync(path.join('..', 'sub2'), path.join(dirSub, 'dir-Symlink'));
+    fs.symlinkSync(dirSub, path.join(dirSub, 'abs-Symlink'));
+  };
+
+  test('readLinkInfo', async () => {
+    const dirTest = fsh.makeTmpPath('', 'test-readLinkInfo_');
+    createLinkTree(dirTest);
+
+    expect(
+      await fsh.readLinkInfo(path.join(dirTest, 'file-Symlink.txt')),
+    ).toEqual({
+      path: path.join(dirTest, 'file-Symlink.txt'),
+      type: 'symlink',
+      target: 'file.txt',
+      resolvedTarget: path.join(dirTest, 'file.txt'),
+      isDangling: false,
+      isDirectory: false,
+    });
+
+    expect(
+      await fsh.readLinkInfo(path.join(dirTest, 'sub', 'dir-Symlink')),
+    ).toEqual({
+      path: path.join(dirTest, 'sub', 'dir-Symlink'),
+      type: 'symlink',
+      target: path.join('..', 'sub2'),
+      resolvedTarget: path.join(dirTest, 'sub2'),
+      isDangling: true,
+      isDirectory: false,
+    });
+
+    const absInfo = await fsh.readLinkInfo(
+      path.join(dirTest, 'sub', 'abs-Symlink'),
+    );
+    expect(absInfo.resolvedTarget).toBe(path.join(dirTest, 'sub'));
+    expect(absInfo.isDirectory).toBeTruthy();
+
+    const hardInfo = await fsh.readLinkInfo(path.join(dirTest, 'file.txt'));
+    expect(hardInfo.type).toBe('hardlink');
+    expect(hardInfo.isDangling).toBeFalsy();
+
+    // Test throwing Errors
+    await expect(fsh.readLinkInfo('')).rejects.toThrow();
+    await expect(fsh.readLinkInfo(dirTest)).rejects.toThrow('not a link');
+    await expect(fsh.readLinkInfo(path.join(dirTest, 'none'))).rejects.toThrow(
+      'ENOENT',
+    );
+
+    rimraf.sync(dirTest);
+  });
+
+  test('readLinkInfoSync', () => {
+    const dirTest = fsh.makeTmpPath('', 'test-readLinkInfoSync_');
+    createLinkTree(dirTest);
+
+    expect(
+      fsh.readLinkInfoSync(path.join(dirTest, 'lost-Symlink.txt')),
+    ).toEqual({
+      path: path.join(dirTest, 'lost-Symlink.txt'),
+      type: 'symlink',
+      target: 'lost.txt',
+      resolvedTarget: path.join(dirTest, 'lost.txt'),
+      isDangling: true,
+      isDirectory: false,
+    });
+
+    const absInfo = fsh.readLinkInfoSync(
+      path.join(dirTest, 'sub', 'abs-Symlink'),
+    );
+    expect(absInfo.target).toBe(path.join(dirTest, 'sub'));
+    expect(absInfo.isDirectory).toBeTruthy();
+
+    const hardInfo = fsh.readLinkInfoSync(path.join(dirTest, 'file-hard.txt'));
+    expect(hardInfo.type).toBe('hardlink');
+
+    // Test throwing Errors
+    expect(() => fsh.readLinkInfoSync('')).toThrow();
+    expect(() => fsh.readLinkInfoSync(dirTest)).toThrow('not a link');
+
+    rimraf.sync(dirTest);
+  });
+
+  test('findBrokenLinks', async () => {
+    const dirTest = fsh.makeTmpPath('', 'test-findBrokenLinks_');
+    createLinkTree(dirTest);
+
+    let linkInfos = await fsh.findBrokenLinks(dirTest);
+
+    expect(linkInfos.map((linkInfo) => linkInfo.path)).toEqual([
+      path.join(dirTest, 'lost-Symlink.txt'),
+      path.join(dirTest, 'sub', 'dir-Symlink'),
+    ]);
+    linkInfos.forEach((linkInfo) => expect(linkInfo.isDangling).toBeTruthy());
+
+    linkInfos = await fsh.findBrokenLinks(dirTest, { exclude: 'sub/**' });
+    expect(linkInfos).toHaveLength(1);
+
+    // Test throwing Errors
+    await expect(
+      fsh.findBrokenLinks(path.join(dirTest, 'none')),
+    ).rejects.toThrow();
+
+    rimraf.sync(dirTest);
+  });
+
+  test('findBrokenLinksSync', () => {
+    const dirTest = fsh.makeTmpPath('', 'test-findBrokenLinksSync_');
+    createLinkTree(dirTest);
+
+    let linkInfos = fsh.findBrokenLinksSync(dirTest);
+
+    expect(linkInfos.map((linkInfo) => linkInfo.path)).toEqual([
+      path.join(dirTest, 'lost-Symlink.txt'),
+      path.join(dirTest, 'sub', 'dir-Symlink'),
+    ]);
+
+    linkInfos = fsh.findBrokenLinksSync(dirTest, { maxDepth: 1 });
+    expect(linkInfos).toHaveLength(1);
+
+    // Test throwing Errors
+    expect(() => fsh.findBrokenLinksSync(path.join(dirTest, 'none'))).toThrow();
+
     rimraf.sync(dirTest);
   });
 });